@@ -0,0 +1,179 @@
+import {
+  allResults,
+  allSettledResults,
+  anyResult,
+  partitionResults,
+  AbortError,
+  TryAndCatch,
+} from "./index";
+
+const delay = <T>(ms: number, value: T) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+const reject = (message: string, ms = 0) =>
+  new Promise<never>((_, rejectWith) =>
+    setTimeout(() => rejectWith(new Error(message)), ms)
+  );
+
+describe("allResults", () => {
+  it("returns a typed tuple of values when everything succeeds", async () => {
+    const result = await allResults([
+      async () => 1,
+      () => "two",
+      () => delay(5, true),
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const [one, two, three]: [number, string, boolean] = result.result;
+      expect([one, two, three]).toEqual([1, "two", true]);
+    }
+  });
+
+  it("keeps record keys", async () => {
+    const result = await allResults({
+      user: async () => ({ id: 1 }),
+      count: async () => 3,
+    });
+
+    expect(result.result).toEqual({ user: { id: 1 }, count: 3 });
+  });
+
+  it("summarises every failure in an AggregateError", async () => {
+    const result = await allResults([
+      () => reject("first"),
+      async () => "fine",
+      () => {
+        throw "second";
+      },
+    ]);
+
+    expect(result.error).toBeInstanceOf(AggregateError);
+    expect(result.error?.message).toBe("2 of 3 operations failed");
+    expect(result.error?.errors.map((e: Error) => e.message)).toEqual([
+      "first",
+      "second",
+    ]);
+    // Same normalisation as tryAndCatch for non-Error throws
+    expect(result.error?.errors[1]).toBeInstanceOf(Error);
+  });
+
+  it("respects the concurrency limit", async () => {
+    let running = 0;
+    let peak = 0;
+    const thunk = async () => {
+      peak = Math.max(peak, ++running);
+      await delay(5, null);
+      running--;
+    };
+
+    await allResults(
+      Array.from({ length: 6 }, () => thunk),
+      {
+        concurrency: 2,
+      }
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  it("fails fast and aborts in-flight thunks", async () => {
+    const signals: AbortSignal[] = [];
+    const started = jest.fn();
+    const slow = (signal: AbortSignal) => {
+      signals.push(signal);
+      return delay(1000, "slow");
+    };
+
+    const startTime = Date.now();
+    const result = await allResults(
+      [slow, () => reject("boom", 5), slow, started],
+      { concurrency: 3, failFast: true }
+    );
+
+    expect(Date.now() - startTime).toBeLessThan(500);
+    expect(result.error?.errors.map((e: Error) => e.message)).toEqual(["boom"]);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(started).not.toHaveBeenCalled();
+  });
+});
+
+describe("allSettledResults", () => {
+  it("returns one Result per thunk", async () => {
+    const [a, b] = await allSettledResults([
+      async () => 1,
+      () => reject("nope"),
+    ]);
+
+    expect(a).toEqual({ ok: true, result: 1, error: null });
+    expect(b.error?.message).toBe("nope");
+  });
+
+  it("reports thunks cancelled by the caller as AbortErrors", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    const { fast, slow } = await allSettledResults(
+      { fast: async () => "done", slow: () => delay(1000, "late") },
+      { signal: controller.signal }
+    );
+
+    expect(fast.result).toBe("done");
+    expect(slow.error).toBeInstanceOf(AbortError);
+  });
+});
+
+describe("anyResult", () => {
+  it("resolves with the first success and aborts the rest", async () => {
+    let loserSignal: AbortSignal | undefined;
+
+    const result = await anyResult([
+      () => reject("down"),
+      () => delay(5, "replica"),
+      (signal) => {
+        loserSignal = signal;
+        return delay(1000, "slow");
+      },
+    ]);
+
+    expect(result.result).toBe("replica");
+    expect(loserSignal?.aborted).toBe(true);
+  });
+
+  it("fails with an AggregateError when everything fails", async () => {
+    const result = await anyResult({
+      a: () => reject("a"),
+      b: () => reject("b"),
+    });
+
+    expect(result.error).toBeInstanceOf(AggregateError);
+    expect(result.error?.errors).toHaveLength(2);
+  });
+});
+
+describe("partitionResults", () => {
+  it("splits arrays into successes and failures", async () => {
+    const { successes, failures } = await partitionResults([
+      async () => 1,
+      () => reject("x"),
+      async () => 3,
+    ]);
+
+    expect(successes).toEqual([1, 3]);
+    expect(failures.map((e) => e.message)).toEqual(["x"]);
+  });
+
+  it("keeps record keys on both sides", async () => {
+    const { successes, failures } = await partitionResults({
+      users: async () => ["ada"],
+      orders: () => reject("timeout"),
+    });
+
+    expect(successes).toEqual({ users: ["ada"] });
+    expect(failures.orders?.message).toBe("timeout");
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.allResults).toBe(allResults);
+    expect(TryAndCatch.partitionResults).toBe(partitionResults);
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  previewDelays,
+  RetryStrategies,
+  seededRandom,
+  TryAndCatch,
+} from "./index";
+
+const half = () => 0.5;
+
+describe("seededRandom", () => {
+  it("produces a reproducible sequence in [0, 1)", () => {
+    const a = previewDelays(seededRandom(42), 5);
+    const b = previewDelays(seededRandom(42), 5);
+
+    expect(a).toEqual(b);
+    expect(a).not.toEqual(previewDelays(seededRandom(7), 5));
+    a.forEach((n) => {
+      expect(n).toBeGreaterThanOrEqual(0);
+      expect(n).toBeLessThan(1);
+    });
+  });
+});
+
+describe("Backoff strategies", () => {
+  it("scales exponential jitter with the base delay", () => {
+    const strategy = RetryStrategies.exponentialBackoff(10, 1000, half);
+
+    expect(previewDelays(strategy, 4)).toEqual([15, 25, 45, 85]);
+  });
+
+  it("applies full and equal jitter to the capped exponential", () => {
+    expect(
+      previewDelays(RetryStrategies.fullJitter(100, 300, half), 4)
+    ).toEqual([50, 100, 150, 150]);
+    expect(
+      previewDelays(RetryStrategies.equalJitter(100, 300, half), 4)
+    ).toEqual([75, 150, 225, 225]);
+  });
+
+  it("grows decorrelated jitter from the previous delay and restarts", () => {
+    const strategy = RetryStrategies.decorrelatedJitter(100, 1000, half);
+
+    expect(previewDelays(strategy, 4)).toEqual([200, 350, 575, 912.5]);
+    expect(strategy(0)).toBe(200);
+  });
+
+  it("creates Fibonacci and polynomial backoff", () => {
+    expect(previewDelays(RetryStrategies.fibonacciBackoff(10, 60), 7)).toEqual([
+      10, 10, 20, 30, 50, 60, 60,
+    ]);
+    expect(
+      previewDelays(RetryStrategies.polynomialBackoff(10, 2, 500), 5)
+    ).toEqual([10, 40, 90, 160, 250]);
+  });
+
+  it("composes caps and floors", () => {
+    const strategy = RetryStrategies.withMin(
+      RetryStrategies.withCap(RetryStrategies.linearBackoff(100), 250),
+      150
+    );
+
+    expect(previewDelays(strategy, 4)).toEqual([150, 200, 250, 250]);
+  });
+
+  it("gives reproducible schedules with a seeded source", () => {
+    const schedule = () =>
+      previewDelays(RetryStrategies.fullJitter(100, 10000, seededRandom(1)), 6);
+
+    expect(schedule()).toEqual(schedule());
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.previewDelays).toBe(previewDelays);
+    expect(TryAndCatch.RetryStrategies.withCap).toBe(RetryStrategies.withCap);
+  });
+});
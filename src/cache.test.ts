@@ -0,0 +1,141 @@
+import { cached, isError, TryAndCatch, VirtualClock } from "./index";
+
+describe("cached", () => {
+  it("memoises successes per key until the TTL expires", async () => {
+    const clock = new VirtualClock();
+    const fn = jest.fn(async (id: number) => `user ${id}`);
+    const getUser = cached(fn, { ttlMs: 1000, clock });
+
+    expect(await getUser(1)).toEqual({
+      ok: true,
+      result: "user 1",
+      error: null,
+      stale: false,
+    });
+    await getUser(1);
+    await getUser(2);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await clock.advance(1000);
+    await getUser(1);
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it("never stores failures", async () => {
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue("up");
+    const load = cached(fn, { ttlMs: 1000 });
+
+    const first = await load();
+    const second = await load();
+
+    expect(first).toMatchObject({ ok: false, stale: false });
+    expect(second.result).toBe("up");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares concurrent misses", async () => {
+    const fn = jest.fn(async () => "value");
+    const load = cached(fn, { ttlMs: 1000 });
+
+    await Promise.all([load(), load(), load()]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("evicts the least recently used entry beyond maxEntries", async () => {
+    const fn = jest.fn(async (id: string) => id);
+    const load = cached(fn, { ttlMs: 1000, maxEntries: 2 });
+
+    await load("a");
+    await load("b");
+    await load("a"); // "b" is now least recently used
+    await load("c");
+    expect(load.size).toBe(2);
+
+    fn.mockClear();
+    await load("a");
+    await load("b");
+    expect(fn.mock.calls).toEqual([["b"]]);
+  });
+
+  it("serves the last good value alongside the fresh error", async () => {
+    const clock = new VirtualClock();
+    const fn = jest
+      .fn()
+      .mockResolvedValueOnce("v1")
+      .mockRejectedValue(new Error("refresh failed"));
+    const load = cached(fn, { ttlMs: 100, staleIfErrorMs: 1000, clock });
+
+    await load();
+    await clock.advance(500);
+    const stale = await load();
+
+    expect(stale).toMatchObject({ ok: false, result: "v1", stale: true });
+    expect(stale.error?.message).toBe("refresh failed");
+    expect(isError(stale)).toBe(true);
+
+    await clock.advance(600);
+    expect(await load()).toMatchObject({ result: null, stale: false });
+    expect(load.size).toBe(0);
+  });
+
+  it("revalidates stale values in the background", async () => {
+    const clock = new VirtualClock();
+    let version = 0;
+    const fn = jest.fn(async () => `v${++version}`);
+    const load = cached(fn, {
+      ttlMs: 100,
+      staleWhileRevalidateMs: 1000,
+      clock,
+    });
+
+    await load();
+    await clock.advance(200);
+    const stale = await load();
+    expect(stale).toEqual({ ok: true, result: "v1", error: null, stale: true });
+
+    await clock.advance(0);
+    expect((await load()).result).toBe("v2");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("supports invalidation", async () => {
+    const fn = jest.fn(async (id: number) => id);
+    const load = cached(fn, { ttlMs: 1000, key: (id) => `id:${id}` });
+
+    await load(1);
+    load.invalidate(1);
+    await load(1);
+    load.clear();
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(load.size).toBe(0);
+  });
+
+  it("does not store a load that was invalidated while in flight", async () => {
+    let resolve!: (value: string) => void;
+    const fn = jest
+      .fn()
+      .mockImplementationOnce(
+        () => new Promise<string>((res) => (resolve = res))
+      )
+      .mockResolvedValue("fresh");
+    const load = cached(fn, { ttlMs: 1000 });
+
+    const pending = load();
+    load.invalidate();
+    resolve("stale");
+
+    expect((await pending).result).toBe("stale");
+    expect(load.size).toBe(0);
+    expect((await load()).result).toBe("fresh");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.cached).toBe(cached);
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  CircuitStateChange,
+  ErrorTypes,
+  tryAndCatchWithRetry,
+  VirtualClock,
+} from "./index";
+
+const fail =
+  (message = "Connection refused") =>
+  () =>
+    Promise.reject(new Error(message));
+const pass = () => Promise.resolve("ok");
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("CircuitBreaker", () => {
+  it("opens after consecutive failures and short-circuits", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const fn = jest.fn(fail());
+
+    await breaker.execute(fn);
+    await breaker.execute(fn);
+    const { error } = await breaker.execute(fn);
+
+    expect(breaker.getState()).toBe("open");
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect((error as CircuitOpenError).retryAfter).toBeGreaterThan(0);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("opens on failure rate once the minimum request count is reached", async () => {
+    const breaker = new CircuitBreaker({
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    await breaker.execute(pass);
+    await breaker.execute(fail());
+    await breaker.execute(pass);
+    expect(breaker.getState()).toBe("closed");
+
+    await breaker.execute(fail());
+    expect(breaker.getState()).toBe("open");
+    expect(breaker.snapshot()).toMatchObject({
+      requests: 4,
+      failures: 2,
+      failureRate: 0.5,
+    });
+  });
+
+  it("only counts failures accepted by isFailure", async () => {
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      isFailure: ErrorTypes.isRetryable,
+    });
+
+    await breaker.execute(fail("Invalid input format"));
+    expect(breaker.getState()).toBe("closed");
+
+    await breaker.execute(fail("Network request failed"));
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("limits half-open probes and closes after a successful probe", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 10 });
+    await breaker.execute(fail());
+    await sleep(20);
+
+    let release!: () => void;
+    const probe = breaker.execute(
+      () => new Promise<string>((resolve) => (release = () => resolve("ok")))
+    );
+    const rejected = await breaker.execute(pass);
+
+    expect(breaker.getState()).toBe("half-open");
+    expect(rejected.error).toBeInstanceOf(CircuitOpenError);
+
+    release();
+    expect((await probe).result).toBe("ok");
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("reopens when a half-open probe fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 10 });
+    await breaker.execute(fail());
+    await sleep(20);
+
+    await breaker.execute(fail());
+    expect(breaker.getState()).toBe("open");
+  });
+
+  it("ignores outcomes of calls admitted before the circuit opened", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      coolDownMs: 10,
+      clock,
+    });
+    const settle: Array<(ok: boolean) => void> = [];
+    const slow = () =>
+      breaker.execute(
+        () =>
+          new Promise<string>((resolve, reject) =>
+            settle.push((ok) =>
+              ok ? resolve("late") : reject(new Error("late"))
+            )
+          )
+      );
+    const lateSuccess = slow();
+    const lateFailure = slow();
+
+    await breaker.execute(fail());
+    await clock.advance(10);
+    expect(breaker.getState()).toBe("half-open");
+
+    settle[0](true);
+    settle[1](false);
+    await lateSuccess;
+    await lateFailure;
+    expect(breaker.snapshot()).toMatchObject({
+      state: "half-open",
+      halfOpenProbes: 0,
+    });
+
+    await breaker.execute(pass);
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("emits state-change events until unsubscribed", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, coolDownMs: 10 });
+    const changes: CircuitStateChange[] = [];
+    const unsubscribe = breaker.onStateChange((change) => changes.push(change));
+
+    await breaker.execute(fail());
+    await sleep(20);
+    await breaker.execute(pass);
+    unsubscribe();
+    breaker.reset();
+
+    expect(changes.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      "closed->open",
+      "open->half-open",
+      "half-open->closed",
+    ]);
+  });
+
+  it("stops tryAndCatchWithRetry from burning retries when open", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const fn = jest.fn(fail());
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 5,
+      delay: 0,
+      circuitBreaker: breaker,
+    });
+
+    expect(result.error).toBeInstanceOf(CircuitOpenError);
+    expect(result.attempts).toBe(2);
+    expect(result.errors).toHaveLength(2);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  classifyError,
+  ErrorTypes,
+  registerErrorRule,
+  SimpleRetry,
+  TimeoutError,
+  TryAndCatch,
+  tryAndCatchWithRetry,
+  VirtualClock,
+  withRetry,
+} from "./index";
+
+const withFields = (message: string, fields: object) =>
+  Object.assign(new Error(message), fields);
+
+describe("classifyError", () => {
+  it("recognises Node error codes", () => {
+    expect(classifyError(withFields("read", { code: "ECONNRESET" }))).toBe(
+      "network"
+    );
+    expect(
+      classifyError(withFields("getaddrinfo", { code: "EAI_AGAIN" }))
+    ).toBe("network");
+    expect(classifyError(withFields("connect", { code: "ETIMEDOUT" }))).toBe(
+      "timeout"
+    );
+  });
+
+  it("maps HTTP status codes to categories", () => {
+    const category = (status: number) =>
+      classifyError(withFields("HTTP error", { status }));
+
+    expect(category(429)).toBe("rate-limited");
+    expect(category(401)).toBe("auth");
+    expect(category(422)).toBe("validation");
+    expect(category(503)).toBe("transient");
+    expect(category(504)).toBe("timeout");
+    expect(category(404)).toBe("permanent");
+    expect(category(501)).toBe("permanent");
+    expect(classifyError(withFields("x", { response: { status: 403 } }))).toBe(
+      "auth"
+    );
+    expect(classifyError(withFields("x", { statusCode: 502 }))).toBe(
+      "transient"
+    );
+  });
+
+  it("prefers structured fields over the message", () => {
+    expect(classifyError(new TimeoutError(100))).toBe("timeout");
+    expect(
+      classifyError(withFields("Network unavailable", { status: 400 }))
+    ).toBe("validation");
+    expect(classifyError(new Error("Invalid request body"))).toBeUndefined();
+  });
+
+  it("follows the cause chain", () => {
+    const wrapped = withFields("fetch to billing", {
+      cause: withFields("connect", { code: "ECONNREFUSED" }),
+    });
+
+    expect(classifyError(wrapped)).toBe("network");
+    expect(classifyError("not an error")).toBeUndefined();
+  });
+
+  it("lets registered rules take precedence until removed", () => {
+    const error = withFields("quota", { code: "QUOTA_EXCEEDED", status: 403 });
+    const unregister = registerErrorRule({
+      category: "rate-limited",
+      code: "QUOTA_EXCEEDED",
+    });
+
+    expect(classifyError(error)).toBe("rate-limited");
+    unregister();
+    expect(classifyError(error)).toBe("auth");
+  });
+
+  it("requires every matcher in a rule to match", () => {
+    const unregister = registerErrorRule({
+      category: "transient",
+      status: 409,
+      message: /lock/i,
+    });
+
+    expect(classifyError(withFields("Row lock held", { status: 409 }))).toBe(
+      "transient"
+    );
+    expect(classifyError(withFields("Duplicate key", { status: 409 }))).toBe(
+      "permanent"
+    );
+    unregister();
+  });
+});
+
+describe("ErrorTypes", () => {
+  it("classifies through the registry", () => {
+    expect(ErrorTypes.isNetworkError(new Error("Invalid request body"))).toBe(
+      false
+    );
+    expect(ErrorTypes.isRateLimited(withFields("x", { status: 429 }))).toBe(
+      true
+    );
+    expect(ErrorTypes.isRetryable(withFields("x", { status: 503 }))).toBe(true);
+    expect(ErrorTypes.isRetryable(withFields("x", { status: 401 }))).toBe(
+      false
+    );
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.classifyError).toBe(classifyError);
+  });
+});
+
+describe("Default shouldRetry", () => {
+  it("does not retry errors classified as fatal", async () => {
+    const fn = jest.fn(() =>
+      Promise.reject(withFields("Forbidden", { status: 403 }))
+    );
+
+    const result = await tryAndCatchWithRetry(fn, { maxRetries: 3, delay: 0 });
+
+    expect(result.attempts).toBe(1);
+  });
+
+  it("still retries unrecognised errors", async () => {
+    const fn = jest.fn(() => Promise.reject(new Error("something odd")));
+
+    const result = await tryAndCatchWithRetry(fn, { maxRetries: 2, delay: 0 });
+
+    expect(result.attempts).toBe(3);
+  });
+});
+
+describe("withRetry / SimpleRetry shouldRetry", () => {
+  const notFound = () => withFields("Not Found", { status: 404 });
+
+  it("retries every error by default", async () => {
+    const fn = jest.fn(() => Promise.reject(notFound()));
+    const clock = new VirtualClock();
+
+    await expect(withRetry(fn, 3, 0)).rejects.toThrow("Not Found");
+    const preset = SimpleRetry.network(fn, { clock });
+    const settled = expect(preset).rejects.toThrow("Not Found");
+    await clock.runAll();
+    await settled;
+
+    expect(fn).toHaveBeenCalledTimes(4 + 4);
+  });
+
+  it("opts into classification with shouldRetry", async () => {
+    const fn = jest.fn(() => Promise.reject(notFound()));
+
+    await expect(
+      withRetry(fn, 3, 0, { shouldRetry: ErrorTypes.isRetryable })
+    ).rejects.toThrow("Not Found");
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
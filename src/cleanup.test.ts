@@ -0,0 +1,88 @@
+import {
+  tryAndCatch,
+  tryAndCatchAsync,
+  configure,
+  consoleLogger,
+  silentLogger,
+} from "./index";
+
+const failing = (message: string) => () => {
+  throw new Error(message);
+};
+
+describe("Cleanup reporting", () => {
+  beforeAll(() => configure({ logger: silentLogger }));
+  afterAll(() => configure({ logger: consoleLogger }));
+
+  it("keeps the default behaviour of logging and discarding", () => {
+    const result = tryAndCatch(() => "ok", failing("close failed"));
+
+    expect(result).toEqual({ ok: true, result: "ok", error: null });
+    expect(result.cleanupError).toBeUndefined();
+  });
+
+  it("attaches cleanup failures to successful results", () => {
+    const result = tryAndCatch(() => "ok", {
+      onFinally: failing("close failed"),
+      cleanupErrors: "report",
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.cleanupError?.message).toBe("close failed");
+  });
+
+  it("keeps the main error and reports the cleanup error alongside", async () => {
+    const result = await tryAndCatchAsync(
+      async () => {
+        throw new Error("query failed");
+      },
+      { onFinally: failing("release failed"), cleanupErrors: "report" }
+    );
+
+    expect(result.error?.message).toBe("query failed");
+    expect(result.cleanupError?.message).toBe("release failed");
+  });
+
+  it("runs several cleanups in LIFO order even when some fail", async () => {
+    const order: string[] = [];
+
+    const result = await tryAndCatch(async () => "done", {
+      onFinally: [
+        () => {
+          order.push("close file");
+        },
+        async () => {
+          order.push("release connection");
+          throw new Error("release failed");
+        },
+        () => {
+          order.push("unlock");
+          throw "unlock failed";
+        },
+      ],
+      cleanupErrors: "report",
+    });
+
+    expect(order).toEqual(["unlock", "release connection", "close file"]);
+    expect(result.cleanupError).toBeInstanceOf(AggregateError);
+    expect(
+      (result.cleanupError as AggregateError).errors.map(
+        (e: Error) => e.message
+      )
+    ).toEqual(["unlock failed", "release failed"]);
+  });
+
+  it("runs sync cleanups in LIFO order", () => {
+    const order: number[] = [];
+
+    tryAndCatch(failing("boom"), {
+      onFinally: [() => order.push(1), () => order.push(2)].map(
+        (push) => () => {
+          push();
+        }
+      ),
+    });
+
+    expect(order).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,155 @@
+import {
+  Bulkhead,
+  BulkheadRejectedError,
+  CircuitBreaker,
+  configure,
+  systemClock,
+  TimeoutError,
+  tryAndCatchWithRetry,
+  VirtualClock,
+  withRetry,
+} from "./index";
+
+const never = () => new Promise<never>(() => undefined);
+
+describe("VirtualClock", () => {
+  it("fires timers in deadline order only when advanced", async () => {
+    const clock = new VirtualClock(1000);
+    const fired: string[] = [];
+
+    clock.setTimeout(() => fired.push("b"), 20);
+    clock.setTimeout(() => fired.push("a"), 10);
+    const cancelled = clock.setTimeout(() => fired.push("c"), 15);
+    clock.clearTimeout(cancelled);
+
+    await clock.advance(5);
+    expect(fired).toEqual([]);
+
+    await clock.advance(15);
+    expect(fired).toEqual(["a", "b"]);
+    expect(clock.now()).toBe(1020);
+    expect(clock.scheduled).toEqual([20, 10, 15]);
+    expect(clock.pending).toBe(0);
+  });
+
+  it("lets timers scheduled from promise callbacks fire in the same advance", async () => {
+    const clock = new VirtualClock();
+    const sleep = (ms: number) =>
+      new Promise<void>((resolve) => clock.setTimeout(resolve, ms));
+    const done = jest.fn();
+
+    sleep(10)
+      .then(() => sleep(10))
+      .then(done);
+    await clock.advance(20);
+
+    expect(done).toHaveBeenCalled();
+  });
+
+  it("refuses to spin forever in runAll", async () => {
+    const clock = new VirtualClock();
+    const loop = () => clock.setTimeout(loop, 1);
+    loop();
+
+    await expect(clock.runAll(10)).rejects.toThrow("more than 10 timers");
+  });
+});
+
+describe("Clock injection", () => {
+  it("drives retry delays and timing metadata without real sleeps", async () => {
+    const clock = new VirtualClock();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    const pending = tryAndCatchWithRetry(fn, {
+      maxRetries: 3,
+      delay: (attempt) => 60000 * (attempt + 1),
+      clock,
+    });
+    await clock.runAll();
+    const result = await pending;
+
+    expect(result.result).toBe("ok");
+    expect(clock.scheduled).toEqual([60000, 120000]);
+    expect(result.totalTime).toBe(180000);
+    expect(result.history.map((h) => h.startedAt)).toEqual([0, 60000, 180000]);
+  });
+
+  it("times attempts out on the injected clock", async () => {
+    const clock = new VirtualClock();
+
+    const pending = tryAndCatchWithRetry(never, {
+      maxRetries: 0,
+      timeout: 5000,
+      clock,
+    });
+    await clock.advance(5000);
+
+    expect((await pending).error).toBeInstanceOf(TimeoutError);
+  });
+
+  it("passes the clock through withRetry", async () => {
+    const clock = new VirtualClock();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    const pending = withRetry(fn, 1, 30000, { clock });
+    await clock.runAll();
+
+    await expect(pending).resolves.toBe("ok");
+    expect(clock.scheduled).toEqual([30000]);
+  });
+
+  it("cools the circuit breaker down on its clock", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      coolDownMs: 30000,
+      clock,
+    });
+
+    await breaker.execute(() => Promise.reject(new Error("down")));
+    expect(breaker.getState()).toBe("open");
+
+    await clock.advance(30000);
+    await breaker.execute(() => Promise.resolve("ok"));
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("times bulkhead queues out on its clock", async () => {
+    const clock = new VirtualClock();
+    const bulkhead = new Bulkhead({
+      maxConcurrent: 1,
+      maxQueued: 1,
+      queueTimeoutMs: 1000,
+      clock,
+    });
+    bulkhead.run(never);
+
+    const queued = bulkhead.run(() => Promise.resolve("late"));
+    await clock.advance(1000);
+
+    expect((await queued).error).toBeInstanceOf(BulkheadRejectedError);
+  });
+
+  it("uses the globally configured clock by default", async () => {
+    const clock = new VirtualClock();
+    configure({ clock });
+    try {
+      const pending = tryAndCatchWithRetry(
+        () => Promise.reject(new Error("down")),
+        { maxRetries: 1, delay: 10000 }
+      );
+      await clock.runAll();
+
+      expect((await pending).totalTime).toBe(10000);
+    } finally {
+      configure({ clock: systemClock });
+    }
+  });
+});
@@ -0,0 +1,142 @@
+import {
+  success,
+  failure,
+  map,
+  flatMap,
+  andThen,
+  mapError,
+  orElse,
+  match,
+  tap,
+  tapError,
+  unwrapOrElse,
+  toPromise,
+  mapAsync,
+  flatMapAsync,
+  mapErrorAsync,
+  orElseAsync,
+  matchAsync,
+  tapAsync,
+  tapErrorAsync,
+  tryAndCatch,
+  tryAndCatchAsync,
+  TryAndCatch,
+  Result,
+} from "./index";
+
+const ok = success(2) as Result<number>;
+const err = failure(new Error("boom")) as Result<number>;
+
+describe("Result combinators", () => {
+  it("map transforms only successful values", () => {
+    expect(map(ok, (n) => n * 10)).toEqual(success(20));
+    expect(map(err, (n) => n * 10)).toBe(err);
+  });
+
+  it("flatMap / andThen chain Result-returning steps", () => {
+    const half = (n: number): Result<number, string> =>
+      n % 2 === 0 ? success(n / 2) : failure("odd");
+
+    expect(flatMap(ok, half)).toEqual(success(1));
+    expect(andThen(success(3), half)).toEqual(failure("odd"));
+    expect(flatMap(err, half)).toBe(err);
+  });
+
+  it("mapError and orElse work on the error channel", () => {
+    expect(mapError(err, (e) => e.message)).toEqual(failure("boom"));
+    expect(mapError(ok, (e) => e.message)).toBe(ok);
+    expect(orElse(err, () => success(0))).toEqual(success(0));
+    expect(orElse(ok, () => success(0))).toBe(ok);
+  });
+
+  it("match folds both branches", () => {
+    const handlers = {
+      ok: (n: number) => `value ${n}`,
+      err: (e: Error) => `error ${e.message}`,
+    };
+    expect(match(ok, handlers)).toBe("value 2");
+    expect(match(err, handlers)).toBe("error boom");
+  });
+
+  it("tap and tapError run side effects and return the same Result", () => {
+    const seen: unknown[] = [];
+
+    expect(tap(ok, (n) => seen.push(n))).toBe(ok);
+    expect(tap(err, (n) => seen.push(n))).toBe(err);
+    expect(tapError(err, (e) => seen.push(e.message))).toBe(err);
+    expect(tapError(ok, (e) => seen.push(e.message))).toBe(ok);
+    expect(seen).toEqual([2, "boom"]);
+  });
+
+  it("unwrapOrElse computes a fallback from the error", () => {
+    expect(unwrapOrElse(ok, () => 0)).toBe(2);
+    expect(unwrapOrElse(err, (e) => e.message.length)).toBe(4);
+  });
+
+  it("toPromise converts back to a plain promise", async () => {
+    await expect(toPromise(ok)).resolves.toBe(2);
+    await expect(toPromise(Promise.resolve(err))).rejects.toThrow("boom");
+  });
+});
+
+describe("Async-aware combinators", () => {
+  it("builds a pipeline from Promise<Result>", async () => {
+    const pipeline = await flatMapAsync(
+      mapAsync(
+        tryAndCatchAsync(async () => "21"),
+        async (text) => Number(text)
+      ),
+      async (n) => tryAndCatch(() => n * 2)
+    );
+
+    expect(pipeline).toEqual(success(42));
+  });
+
+  it("short-circuits on failure", async () => {
+    const step = jest.fn();
+    const result = await mapAsync(
+      tryAndCatchAsync(async () => {
+        throw new Error("offline");
+      }),
+      step
+    );
+
+    expect(result.error?.message).toBe("offline");
+    expect(step).not.toHaveBeenCalled();
+  });
+
+  it("recovers and folds asynchronously", async () => {
+    const recovered = await orElseAsync(Promise.resolve(err), async () =>
+      success(0)
+    );
+    const mapped = await mapErrorAsync(err, async (e) => e.message);
+    const folded = await matchAsync(Promise.resolve(ok), {
+      ok: async (n) => n + 1,
+      err: () => -1,
+    });
+
+    expect(recovered).toEqual(success(0));
+    expect(mapped).toEqual(failure("boom"));
+    expect(folded).toBe(3);
+  });
+
+  it("awaits async side effects in tapAsync / tapErrorAsync", async () => {
+    const seen: unknown[] = [];
+
+    await tapAsync(Promise.resolve(ok), async (n) => {
+      seen.push(n);
+    });
+    await tapErrorAsync(err, async (e) => {
+      seen.push(e.message);
+    });
+
+    expect(seen).toEqual([2, "boom"]);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.map).toBe(map);
+    expect(TryAndCatch.andThen).toBe(flatMap);
+    expect(TryAndCatch.matchAsync).toBe(matchAsync);
+    expect(typeof TryAndCatch.toPromise).toBe("function");
+  });
+});
@@ -0,0 +1,213 @@
+import {
+  Mutex,
+  Semaphore,
+  Bulkhead,
+  BulkheadRejectedError,
+  AbortError,
+  TimeoutError,
+  tryAndCatchWithRetry,
+} from "./index";
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe("Mutex", () => {
+  it("serialises critical sections", async () => {
+    const mutex = new Mutex();
+    const order: string[] = [];
+    const section = (name: string) =>
+      mutex.run(async () => {
+        order.push(`${name}:start`);
+        await sleep(5);
+        order.push(`${name}:end`);
+        return name;
+      });
+
+    const [a, b] = await Promise.all([section("a"), section("b")]);
+
+    expect(a.result).toBe("a");
+    expect(b.result).toBe("b");
+    expect(order).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+    expect(mutex.locked).toBe(false);
+  });
+
+  it("releases the lock when the section fails", async () => {
+    const mutex = new Mutex();
+
+    const { error } = await mutex.run(async () => {
+      throw new Error("broken");
+    });
+
+    expect(error?.message).toBe("broken");
+    expect(mutex.locked).toBe(false);
+  });
+});
+
+describe("Semaphore", () => {
+  it("limits concurrent runs to the permit count", async () => {
+    const semaphore = new Semaphore(2);
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        semaphore.run(async () => {
+          peak = Math.max(peak, ++running);
+          await sleep(5);
+          running--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+    expect(semaphore.available).toBe(2);
+  });
+
+  it("ignores double releases", async () => {
+    const semaphore = new Semaphore(1);
+    const release = await semaphore.acquire();
+    release();
+    release();
+
+    expect(semaphore.available).toBe(1);
+  });
+
+  it("stops waiting when the signal aborts", async () => {
+    const semaphore = new Semaphore(1);
+    await semaphore.acquire();
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 5);
+
+    const { error } = await semaphore.run(async () => "never", {
+      signal: controller.signal,
+    });
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(semaphore.waiting).toBe(0);
+  });
+
+  it("refuses a free permit to an already-aborted signal", async () => {
+    const semaphore = new Semaphore(1);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(semaphore.acquire(controller.signal)).rejects.toBeInstanceOf(
+      AbortError
+    );
+    expect(semaphore.available).toBe(1);
+  });
+});
+
+describe("Bulkhead", () => {
+  it("rejects calls beyond max concurrent + max queued", async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 1 });
+
+    const first = bulkhead.run(() => sleep(10).then(() => 1));
+    const second = bulkhead.run(async () => 2);
+    const third = await bulkhead.run(async () => 3);
+
+    expect(bulkhead.snapshot()).toEqual({
+      active: 1,
+      queued: 1,
+      maxConcurrent: 1,
+      maxQueued: 1,
+    });
+    expect(third.error).toBeInstanceOf(BulkheadRejectedError);
+    expect((third.error as BulkheadRejectedError).reason).toBe("queue-full");
+    expect((await first).result).toBe(1);
+    expect((await second).result).toBe(2);
+  });
+
+  it("rejects queued calls after the queue timeout", async () => {
+    const bulkhead = new Bulkhead({
+      maxConcurrent: 1,
+      maxQueued: 5,
+      queueTimeoutMs: 5,
+    });
+
+    const busy = bulkhead.run(() => sleep(50));
+    const { error } = await bulkhead.run(async () => "late");
+
+    expect((error as BulkheadRejectedError).reason).toBe("queue-timeout");
+    expect(bulkhead.snapshot().queued).toBe(0);
+    await busy;
+  });
+
+  it("does not queue an already-aborted caller until the queue timeout", async () => {
+    const bulkhead = new Bulkhead({
+      maxConcurrent: 1,
+      maxQueued: 5,
+      queueTimeoutMs: 300,
+    });
+    const busy = bulkhead.run(() => sleep(20));
+    const controller = new AbortController();
+    controller.abort();
+
+    const pending = bulkhead.acquire(controller.signal);
+    const outcome = await Promise.race([
+      pending.catch((error) => error),
+      sleep(50).then(() => "still queued"),
+    ]);
+
+    expect(outcome).toBeInstanceOf(AbortError);
+    expect(bulkhead.snapshot().queued).toBe(0);
+    await busy;
+  });
+
+  it("keeps retries from multiplying load on a saturated dependency", async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+    const busy = bulkhead.run(() => sleep(20));
+    const fn = jest.fn().mockRejectedValue(new Error("overloaded"));
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 3,
+      delay: 0,
+      bulkhead,
+    });
+
+    expect(result.error).toBeInstanceOf(BulkheadRejectedError);
+    expect(result.attempts).toBe(0);
+    expect(fn).not.toHaveBeenCalled();
+    await busy;
+  });
+
+  it("holds the slot until a timed-out attempt really settles", async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1, maxQueued: 10 });
+    let active = 0;
+    let peak = 0;
+    const fn = jest.fn(async () => {
+      peak = Math.max(peak, ++active);
+      await sleep(50); // ignores the attempt signal
+      active--;
+    });
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 3,
+      delay: 0,
+      timeout: 10,
+      bulkhead,
+    });
+    await sleep(60);
+
+    expect(result.error).toBeInstanceOf(TimeoutError);
+    expect(fn).toHaveBeenCalledTimes(4);
+    expect(peak).toBe(1);
+    expect(bulkhead.snapshot().active).toBe(0);
+  });
+
+  it("releases the slot between retry attempts", async () => {
+    const bulkhead = new Bulkhead({ maxConcurrent: 1 });
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 1,
+      delay: 0,
+      bulkhead,
+    });
+
+    expect(result.result).toBe("ok");
+    expect(bulkhead.snapshot().active).toBe(0);
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  deserializeError,
+  formatErrorChain,
+  LogEntry,
+  serializeError,
+  TimeoutError,
+  TryAndCatch,
+  TryAndCatchError,
+  tryAndCatch,
+  tryAndCatchAsync,
+  tryAndCatchWithRetry,
+  warnOnError,
+  wrapError,
+} from "./index";
+
+describe("TryAndCatchError", () => {
+  it("keeps non-Error throws as the cause", () => {
+    const thrown = { code: 42 };
+    const { error } = tryAndCatch(() => {
+      throw thrown;
+    });
+
+    expect(error).toBeInstanceOf(TryAndCatchError);
+    expect(error?.message).toBe("[object Object]");
+    expect((error as TryAndCatchError).cause).toBe(thrown);
+  });
+
+  it("leaves Error throws untouched without context", () => {
+    const thrown = new TypeError("bad");
+    const { error } = tryAndCatch(() => {
+      throw thrown;
+    });
+
+    expect(error).toBe(thrown);
+  });
+
+  it("wraps failures with operation and context when given", async () => {
+    const cause = new Error("ECONNRESET");
+    const { error } = await tryAndCatchAsync(() => Promise.reject(cause), {
+      operation: "loadUser",
+      context: { userId: 7 },
+    });
+
+    expect(error).toBeInstanceOf(TryAndCatchError);
+    expect(error).toMatchObject({
+      message: "loadUser: ECONNRESET",
+      operation: "loadUser",
+      context: { userId: 7 },
+    });
+    expect((error as TryAndCatchError).cause).toBe(cause);
+  });
+
+  it("lets mapError take precedence over context", () => {
+    const { error } = tryAndCatch(
+      () => {
+        throw new Error("boom");
+      },
+      { context: { id: 1 }, mapError: (e) => `mapped ${String(e)}` }
+    );
+
+    expect(error).toBe("mapped Error: boom");
+  });
+
+  it("wraps only the final retry error and keeps attempt errors raw", async () => {
+    const { error, errors } = await tryAndCatchWithRetry(
+      () => Promise.reject(new TimeoutError(10)),
+      {
+        maxRetries: 1,
+        delay: 0,
+        operation: "sync",
+        context: { batch: "b1" },
+      }
+    );
+
+    expect(errors.every((e) => e instanceof TimeoutError)).toBe(true);
+    expect(error).toMatchObject({
+      operation: "sync",
+      context: { batch: "b1", attempts: 2 },
+    });
+    expect((error as TryAndCatchError).cause).toBe(errors[1]);
+  });
+
+  it("survives serialization", () => {
+    const revived = deserializeError(
+      serializeError(wrapError(new Error("inner"), "outer", { id: 3 }))
+    );
+
+    expect(revived).toBeInstanceOf(TryAndCatchError);
+    expect((revived as TryAndCatchError).context).toEqual({ id: 3 });
+    expect(((revived as TryAndCatchError).cause as Error).message).toBe(
+      "inner"
+    );
+  });
+});
+
+describe("wrapError / formatErrorChain", () => {
+  it("prints every link of the cause chain", () => {
+    const root = "socket closed";
+    const chain = wrapError(
+      wrapError(root, "query failed", { table: "users" }),
+      "load profile",
+      { userId: 7 }
+    );
+
+    expect(formatErrorChain(chain)).toBe(
+      [
+        'TryAndCatchError: load profile {"userId":7}',
+        '  caused by: TryAndCatchError: query failed {"table":"users"}',
+        '  caused by: "socket closed"',
+      ].join("\n")
+    );
+  });
+
+  it("stops on cycles", () => {
+    const a = new Error("a") as Error & { cause?: unknown };
+    const b = new Error("b") as Error & { cause?: unknown };
+    a.cause = b;
+    b.cause = a;
+
+    expect(formatErrorChain(a).split("\n")).toHaveLength(2);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.wrapError).toBe(wrapError);
+    expect(TryAndCatch.formatErrorChain).toBe(formatErrorChain);
+  });
+});
+
+describe("Structured warnOnError context", () => {
+  it("accepts an operation plus details", () => {
+    const entries: LogEntry[] = [];
+    const result = tryAndCatch(() => {
+      throw new Error("boom");
+    });
+
+    warnOnError(
+      result,
+      { operation: "import", file: "a.csv" },
+      { logger: (entry) => entries.push(entry) }
+    );
+
+    expect(entries[0]).toMatchObject({
+      message: "[try-and-catch] Error in import: boom",
+      operation: "import",
+      context: { file: "a.csv" },
+    });
+  });
+
+  it("falls back to the context carried by a TryAndCatchError", () => {
+    const entries: LogEntry[] = [];
+    const result = tryAndCatch(
+      () => {
+        throw new Error("boom");
+      },
+      { operation: "export", context: { id: 9 } }
+    );
+
+    warnOnError(result, undefined, { logger: (entry) => entries.push(entry) });
+
+    expect(entries[0]).toMatchObject({
+      operation: "export",
+      context: { id: 9 },
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  AbortError,
+  MetricsRegistry,
+  TimeoutError,
+  TryAndCatch,
+  tryEach,
+  VirtualClock,
+  withFallback,
+} from "./index";
+
+const fail = (message: string) => () => Promise.reject(new Error(message));
+
+describe("tryEach", () => {
+  it("returns the first success and reports its source", async () => {
+    const cache = jest.fn(() => "cached");
+
+    const result = await tryEach([
+      fail("primary down"),
+      { name: "replica", run: async () => "replica value" },
+      cache,
+    ]);
+
+    expect(result.ok).toBe(true);
+    expect(result.result).toBe("replica value");
+    expect(result.source).toBe("replica");
+    expect(result.errors.map((e) => e.message)).toEqual(["primary down"]);
+    expect(cache).not.toHaveBeenCalled();
+  });
+
+  it("uses the index as the source of unnamed steps", async () => {
+    const result = await tryEach([fail("a"), () => 42]);
+
+    expect(result.source).toBe(1);
+  });
+
+  it("aggregates every error when all steps fail", async () => {
+    const result = await tryEach([fail("primary"), fail("replica")]);
+
+    expect(result.ok).toBe(false);
+    expect(result.source).toBeNull();
+    expect(result.error).toBeInstanceOf(AggregateError);
+    expect(result.error?.message).toBe("All 2 fallbacks failed");
+    expect(result.error?.errors.map((e: Error) => e.message)).toEqual([
+      "primary",
+      "replica",
+    ]);
+  });
+
+  it("applies per-step retry and timeout options", async () => {
+    const clock = new VirtualClock();
+    const flaky = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("primary value");
+    const hang = (signal: AbortSignal) =>
+      new Promise<string>((_, reject) =>
+        signal.addEventListener("abort", () => reject(new Error("aborted")))
+      );
+
+    const pending = tryEach(
+      [
+        { name: "slow", run: hang, timeout: 1000 },
+        { name: "flaky", run: flaky, maxRetries: 2, delay: 500 },
+      ],
+      { clock }
+    );
+    await clock.runAll();
+    const result = await pending;
+
+    expect(result.result).toBe("primary value");
+    expect(result.errors[0]).toBeInstanceOf(TimeoutError);
+    expect(clock.scheduled).toEqual([1000, 500]);
+  });
+
+  it("stops the chain when the signal aborts", async () => {
+    const controller = new AbortController();
+    const second = jest.fn(() => "never");
+
+    const result = await tryEach(
+      [
+        () => {
+          controller.abort();
+          return Promise.reject(new Error("first"));
+        },
+        second,
+      ],
+      { signal: controller.signal }
+    );
+
+    expect(second).not.toHaveBeenCalled();
+    expect(result.errors[1]).toBeInstanceOf(AbortError);
+  });
+
+  it("reports one AbortError when aborted during a step", async () => {
+    const controller = new AbortController();
+    const metrics = new MetricsRegistry();
+    const second = jest.fn(() => "never");
+
+    const result = await tryEach(
+      [
+        () => {
+          setTimeout(() => controller.abort(), 5);
+          return new Promise<string>(() => undefined);
+        },
+        second,
+      ],
+      { signal: controller.signal, operation: "load", metrics }
+    );
+
+    expect(second).not.toHaveBeenCalled();
+    expect(metrics.snapshot().load.attempts).toBe(1);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toBeInstanceOf(AbortError);
+  });
+
+  it("reports the abort when aborted before the first step", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const first = jest.fn(() => "never");
+
+    const result = await tryEach([first], { signal: controller.signal });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([expect.any(AbortError)]);
+  });
+});
+
+describe("withFallback", () => {
+  it("passes the primary error to the fallback", async () => {
+    const fallback = jest.fn(
+      async (error: Error) => `fallback: ${error.message}`
+    );
+
+    const result = await withFallback(fail("db down"), fallback);
+
+    expect(result.result).toBe("fallback: db down");
+    expect(result.source).toBe("fallback");
+  });
+
+  it("keeps the primary result and name when it succeeds", async () => {
+    const fallback = jest.fn();
+
+    const result = await withFallback(
+      { name: "db", run: async () => "fresh" },
+      fallback
+    );
+
+    expect(result.source).toBe("db");
+    expect(fallback).not.toHaveBeenCalled();
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.tryEach).toBe(tryEach);
+    expect(TryAndCatch.withFallback).toBe(withFallback);
+  });
+});
@@ -0,0 +1,131 @@
+import { hedge, LatencyTracker, TryAndCatch, VirtualClock } from "./index";
+
+// Resolves with `value` after `ms` on the clock, rejecting if aborted first
+const respondAfter =
+  (clock: VirtualClock, ms: number, value: string) => (signal: AbortSignal) =>
+    new Promise<string>((resolve, reject) => {
+      const timer = clock.setTimeout(() => resolve(value), ms);
+      signal.addEventListener("abort", () => {
+        clock.clearTimeout(timer);
+        reject(new Error("aborted"));
+      });
+    });
+
+describe("hedge", () => {
+  it("does not hedge when the first attempt is fast", async () => {
+    const clock = new VirtualClock();
+    const fn = jest.fn(respondAfter(clock, 10, "fast"));
+
+    const pending = hedge(fn, { delay: 50, clock });
+    await clock.runAll();
+    const result = await pending;
+
+    expect(result).toMatchObject({ ok: true, result: "fast", hedges: 0 });
+    expect(result.winner).toBe(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("lets a hedge win and aborts the slow original", async () => {
+    const clock = new VirtualClock();
+    const signals: AbortSignal[] = [];
+    const fn = jest.fn((signal: AbortSignal, attempt: number) => {
+      signals.push(signal);
+      return respondAfter(
+        clock,
+        attempt === 0 ? 1000 : 20,
+        `#${attempt}`
+      )(signal);
+    });
+
+    const pending = hedge(fn, { delay: 50, maxHedges: 2, clock });
+    await clock.advance(70);
+    const result = await pending;
+
+    expect(result.result).toBe("#1");
+    expect(result.winner).toBe(1);
+    expect(result.hedges).toBe(1);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("starts the next hedge immediately after a failure", async () => {
+    const clock = new VirtualClock();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("boom"))
+      .mockResolvedValue("second");
+
+    const result = await hedge(fn, { delay: 50, clock });
+
+    expect(result.result).toBe("second");
+    expect(result.errors.map((e) => e.message)).toEqual(["boom"]);
+  });
+
+  it("fails with an AggregateError when every attempt fails", async () => {
+    const fn = jest.fn((_: AbortSignal, attempt: number) =>
+      Promise.reject(new Error(`fail ${attempt}`))
+    );
+
+    const result = await hedge(fn, { delay: 50, maxHedges: 2 });
+
+    expect(result.ok).toBe(false);
+    expect(result.error).toBeInstanceOf(AggregateError);
+    expect(result.hedges).toBe(2);
+    expect(result.errors).toHaveLength(3);
+  });
+
+  it("aborts everything when the caller's signal fires", async () => {
+    const clock = new VirtualClock();
+    const controller = new AbortController();
+    const signals: AbortSignal[] = [];
+
+    const pending = hedge(
+      (signal) => {
+        signals.push(signal);
+        return respondAfter(clock, 1000, "late")(signal);
+      },
+      { delay: 50, clock, signal: controller.signal }
+    );
+    controller.abort();
+    const result = await pending;
+
+    expect(result.ok).toBe(false);
+    expect(signals[0].aborted).toBe(true);
+    expect(clock.pending).toBe(0);
+  });
+
+  it("derives the hedge delay from observed latency", async () => {
+    const clock = new VirtualClock();
+    const latency = new LatencyTracker(10);
+    [10, 20, 30, 40, 200].forEach((ms) => latency.record(ms));
+
+    const pending = hedge(respondAfter(clock, 5, "ok"), {
+      delay: 1000,
+      latency,
+      percentile: 80,
+      clock,
+    });
+    await clock.runAll();
+    await pending;
+
+    expect(clock.scheduled[0]).toBe(40);
+    expect(latency.count).toBe(6);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.hedge).toBe(hedge);
+  });
+});
+
+describe("LatencyTracker", () => {
+  it("keeps a bounded window and computes nearest-rank percentiles", () => {
+    const latency = new LatencyTracker(4);
+
+    expect(latency.percentile(50)).toBeUndefined();
+    [100, 1, 2, 3, 4].forEach((ms) => latency.record(ms));
+
+    expect(latency.count).toBe(4);
+    expect(latency.percentile(50)).toBe(2);
+    expect(latency.percentile(100)).toBe(4);
+    expect(latency.percentile(0)).toBe(1);
+  });
+});
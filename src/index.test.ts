@@ -15,6 +15,12 @@ import {
   unwrapOr,
   warnOnError,
   TryAndCatch,
+  fromLegacy,
+  success,
+  failure,
+  TimeoutError,
+  AbortError,
+  VirtualClock,
 } from "./index";
 
 describe("tryAndCatch", () => {
@@ -223,8 +229,11 @@ describe("tryAndCatchWithRetry", () => {
       .mockRejectedValueOnce(new Error("Attempt 1 failed"))
       .mockRejectedValueOnce(new Error("Attempt 2 failed"))
       .mockResolvedValue("success");
+    const clock = new VirtualClock();
 
-    const result = await tryAndCatchWithRetry(fn, { maxRetries: 3 });
+    const pending = tryAndCatchWithRetry(fn, { maxRetries: 3, clock });
+    await clock.runAll();
+    const result = await pending;
 
     expect(result.result).toBe("success");
     expect(result.error).toBeNull();
@@ -235,8 +244,11 @@ describe("tryAndCatchWithRetry", () => {
 
   it("fails after max retries", async () => {
     const fn = jest.fn().mockRejectedValue(new Error("Always fails"));
+    const clock = new VirtualClock();
 
-    const result = await tryAndCatchWithRetry(fn, { maxRetries: 2 });
+    const pending = tryAndCatchWithRetry(fn, { maxRetries: 2, clock });
+    await clock.runAll();
+    const result = await pending;
 
     expect(result.result).toBeNull();
     expect(result.error?.message).toBe("Always fails");
@@ -250,11 +262,15 @@ describe("tryAndCatchWithRetry", () => {
       .fn()
       .mockRejectedValueOnce(new Error("Retryable error"))
       .mockRejectedValueOnce(new Error("Non-retryable error"));
+    const clock = new VirtualClock();
 
-    const result = await tryAndCatchWithRetry(fn, {
+    const pending = tryAndCatchWithRetry(fn, {
       maxRetries: 3,
       shouldRetry: (error) => error.message.includes("Retryable"),
+      clock,
     });
+    await clock.runAll();
+    const result = await pending;
 
     expect(result.result).toBeNull();
     expect(result.error?.message).toBe("Non-retryable error");
@@ -264,15 +280,236 @@ describe("tryAndCatchWithRetry", () => {
 
   it("applies delay between retries", async () => {
     const fn = jest.fn().mockRejectedValue(new Error("Always fails"));
+    const clock = new VirtualClock();
+
+    const pending = tryAndCatchWithRetry(fn, {
+      maxRetries: 2,
+      delay: 50,
+      clock,
+    });
+    await clock.runAll();
+    const { totalTime } = await pending;
+
+    expect(clock.scheduled).toEqual([50, 50]);
+    expect(totalTime).toBe(100); // 2 * 50ms delays, measured on the clock
+  });
+});
+
+describe("Cancellation", () => {
+  const waitForAbort = (signal: AbortSignal) =>
+    new Promise<never>((_, reject) =>
+      signal.addEventListener("abort", () => reject(new Error("aborted")))
+    );
+
+  it("aborts a timed-out attempt and reports a TimeoutError", async () => {
+    const signals: AbortSignal[] = [];
+
+    const result = await tryAndCatchWithRetry(
+      (signal) => {
+        signals.push(signal);
+        return waitForAbort(signal);
+      },
+      { maxRetries: 1, delay: 0, timeout: 20 }
+    );
+
+    expect(result.error).toBeInstanceOf(TimeoutError);
+    expect((result.error as TimeoutError).timeout).toBe(20);
+    expect(ErrorTypes.isTimeoutError(result.error!)).toBe(true);
+    expect(result.attempts).toBe(2);
+    expect(signals).toHaveLength(2);
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+  });
+
+  it("cancels the retry loop while sleeping between attempts", async () => {
+    const controller = new AbortController();
+    const fn = jest.fn().mockRejectedValue(new Error("down"));
+    setTimeout(() => controller.abort(), 20);
+
     const startTime = Date.now();
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 5,
+      delay: 10000,
+      signal: controller.signal,
+    });
+
+    expect(Date.now() - startTime).toBeLessThan(1000);
+    expect(result.error).toBeInstanceOf(AbortError);
+    expect(result.attempts).toBe(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("aborts the in-flight attempt when the caller aborts", async () => {
+    const controller = new AbortController();
+    let attemptSignal: AbortSignal | undefined;
+    setTimeout(() => controller.abort(), 10);
+
+    const result = await tryAndCatchWithRetry(
+      (signal) => {
+        attemptSignal = signal;
+        return waitForAbort(signal);
+      },
+      { maxRetries: 3, signal: controller.signal }
+    );
+
+    expect(result.error).toBeInstanceOf(AbortError);
+    expect(result.attempts).toBe(1);
+    expect(attemptSignal?.aborted).toBe(true);
+  });
+
+  it("does not start when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fn = jest.fn();
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 3,
+      signal: controller.signal,
+    });
+
+    expect(result.error).toBeInstanceOf(AbortError);
+    expect(result.attempts).toBe(0);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("supports signals in withRetry and tryAndCatchAsync", async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(
+      withRetry(() => Promise.reject(new Error("down")), 5, 10000, {
+        signal: controller.signal,
+      })
+    ).rejects.toBeInstanceOf(AbortError);
+
+    const { error } = await tryAndCatchAsync(
+      (signal) => waitForAbort(signal!),
+      { signal: controller.signal }
+    );
+    expect(error).toBeInstanceOf(AbortError);
+  });
+});
+
+describe("Retry lifecycle hooks", () => {
+  it("calls onRetry between attempts and onSuccess at the end", async () => {
+    const onRetry = jest.fn();
+    const onSuccess = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
 
     await tryAndCatchWithRetry(fn, {
       maxRetries: 2,
-      delay: 50,
+      delay: 5,
+      onRetry,
+      onSuccess,
+    });
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "flaky" }),
+      { attempt: 1, nextDelayMs: 5, elapsed: expect.any(Number) }
+    );
+    expect(onSuccess).toHaveBeenCalledWith("ok", {
+      attempts: 2,
+      elapsed: expect.any(Number),
+    });
+  });
+
+  it("calls onGiveUp with every error", async () => {
+    const onGiveUp = jest.fn();
+
+    await tryAndCatchWithRetry(() => Promise.reject(new Error("down")), {
+      maxRetries: 1,
+      delay: 0,
+      onGiveUp,
+    });
+
+    expect(onGiveUp).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "down" }),
+      { attempts: 2, elapsed: expect.any(Number), errors: expect.any(Array) }
+    );
+    expect(onGiveUp.mock.calls[0][1].errors).toHaveLength(2);
+  });
+
+  it("passes the attempt context to fn", async () => {
+    const contexts: { attempt: number; previousError: Error | null }[] = [];
+
+    await tryAndCatchWithRetry(
+      async (signal, { attempt, previousError, signal: contextSignal }) => {
+        expect(contextSignal).toBe(signal);
+        contexts.push({ attempt, previousError });
+        if (attempt < 3) throw new Error(`attempt ${attempt}`);
+        return "done";
+      },
+      { maxRetries: 3, delay: 0 }
+    );
+
+    expect(contexts.map((c) => c.attempt)).toEqual([1, 2, 3]);
+    expect(contexts.map((c) => c.previousError?.message)).toEqual([
+      undefined,
+      "attempt 1",
+      "attempt 2",
+    ]);
+  });
+
+  it("records per-attempt timestamps and durations", async () => {
+    const fn = jest
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((_, reject) =>
+            setTimeout(() => reject(new Error("slow fail")), 20)
+          )
+      )
+      .mockResolvedValue("ok");
+    const before = Date.now();
+
+    const { history } = await tryAndCatchWithRetry(fn, {
+      maxRetries: 1,
+      delay: 0,
+    });
+
+    expect(history).toHaveLength(2);
+    expect(history[0].attempt).toBe(1);
+    expect(history[0].startedAt).toBeGreaterThanOrEqual(before);
+    expect(history[0].duration).toBeGreaterThanOrEqual(15);
+    expect(history[0].error?.message).toBe("slow fail");
+    expect(history[1]).toMatchObject({ attempt: 2, error: null });
+  });
+
+  it("isolates throwing hooks", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation();
+
+    const result = await tryAndCatchWithRetry(async () => "ok", {
+      maxRetries: 0,
+      onSuccess: () => {
+        throw new Error("hook bug");
+      },
     });
 
-    const elapsed = Date.now() - startTime;
-    expect(elapsed).toBeGreaterThan(90); // Should have at least 2 * 50ms delays
+    expect(result.result).toBe("ok");
+    expect(warn).toHaveBeenCalledWith("Retry hook failed:", expect.any(Error));
+    warn.mockRestore();
+  });
+
+  it("supports the same hooks in withRetry and SimpleRetry", async () => {
+    const onRetry = jest.fn();
+    const onGiveUp = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    await expect(withRetry(fn, 1, 0, { onRetry })).resolves.toBe("ok");
+    await expect(
+      SimpleRetry.quick(() => Promise.reject(new Error("down")), 0, {
+        onGiveUp,
+      })
+    ).rejects.toThrow("down");
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onGiveUp).toHaveBeenCalledTimes(1);
   });
 });
 
@@ -304,7 +541,7 @@ describe("RetryStrategies", () => {
   it("creates exponential backoff delays", () => {
     const strategy = RetryStrategies.exponentialBackoff(100, 1000);
 
-    // With base=100, attempt 0: 100 * 2^0 + random(1000) = 100 + (0-1000)
+    // With base=100, attempt 0: 100 * 2^0 + random(100) = 100 + (0-100)
     const delay0 = strategy(0);
     const delay1 = strategy(1);
 
@@ -410,6 +647,24 @@ describe("Type Guards and Helpers", () => {
     expect(unwrapOr(failure, "default")).toBe("default");
   });
 
+  it("unwrap and unwrapOr treat falsy errors as failures", () => {
+    expect(() => unwrap({ result: null, error: 0 })).toThrow();
+    expect(unwrapOr({ result: null, error: 0 }, 5)).toBe(5);
+    expect(unwrapOr({ result: null, error: "" }, 5)).toBe(5);
+    expect(unwrapOr({ result: null, error: false }, 5)).toBe(5);
+  });
+
+  it("treats a legacy undefined error as success, like fromLegacy", () => {
+    const legacy = { result: 5, error: undefined };
+
+    expect(isSuccess(legacy)).toBe(true);
+    expect(unwrap(legacy)).toBe(5);
+    expect(unwrapOr(legacy, 0)).toBe(5);
+    expect(fromLegacy(legacy).ok).toBe(true);
+    expect(isError(failure(0))).toBe(true);
+    expect(unwrapOr(failure(""), "fallback")).toBe("fallback");
+  });
+
   it("warnOnError should warn on errors", () => {
     const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
     const failure = { result: null, error: new Error("test error") };
@@ -425,6 +680,98 @@ describe("Type Guards and Helpers", () => {
   });
 });
 
+describe("Typed error channel", () => {
+  class DomainError {
+    constructor(public readonly code: string) {}
+  }
+
+  const toDomainError = (error: unknown) =>
+    new DomainError(error instanceof Error ? error.message : String(error));
+
+  it("discriminates results on the ok flag", () => {
+    const ok = tryAndCatch(() => 42);
+    const failed = tryAndCatch((): number => {
+      throw new Error("fail");
+    });
+
+    expect(ok).toEqual({ ok: true, result: 42, error: null });
+    expect(failed.ok).toBe(false);
+    if (ok.ok) {
+      const value: number = ok.result;
+      expect(value).toBe(42);
+    }
+  });
+
+  it("accepts the value type explicitly for async functions", async () => {
+    interface User {
+      name: string;
+    }
+    const load = async (): Promise<User> => ({ name: "Ada" });
+
+    const pending: Promise<Result<User>> = tryAndCatch<User>(async () =>
+      load()
+    );
+    const sync: Result<User> = tryAndCatch<User>(() => ({ name: "Bo" }));
+
+    expect((await pending).result).toEqual({ name: "Ada" });
+    expect(sync.result).toEqual({ name: "Bo" });
+  });
+
+  it("maps sync and async errors through mapError", async () => {
+    const sync = tryAndCatch(
+      () => {
+        throw new Error("E_SYNC");
+      },
+      { mapError: toDomainError }
+    );
+    const asyncResult = await tryAndCatchAsync(
+      async () => {
+        throw "E_ASYNC";
+      },
+      { mapError: toDomainError }
+    );
+
+    expect(sync.error).toEqual(new DomainError("E_SYNC"));
+    if (!asyncResult.ok) {
+      const error: DomainError = asyncResult.error;
+      expect(error.code).toBe("E_ASYNC");
+    }
+  });
+
+  it("still runs onFinally when passed through options", async () => {
+    let cleaned = false;
+    await tryAndCatch(async () => 1, {
+      onFinally: () => {
+        cleaned = true;
+      },
+    });
+    expect(cleaned).toBe(true);
+  });
+
+  it("threads the error type through retries", async () => {
+    const fn = jest.fn().mockRejectedValue(new Error("E_DOWN"));
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 1,
+      delay: 0,
+      mapError: toDomainError,
+      shouldRetry: (error) => error.code === "E_DOWN",
+    });
+
+    expect(result.ok).toBe(false);
+    expect(result.errors).toEqual([
+      new DomainError("E_DOWN"),
+      new DomainError("E_DOWN"),
+    ]);
+  });
+
+  it("upgrades legacy results with fromLegacy", () => {
+    expect(fromLegacy({ result: "x", error: null })).toEqual(success("x"));
+    const error = new Error("legacy");
+    expect(fromLegacy({ result: null, error })).toEqual(failure(error));
+  });
+});
+
 // Test unified API object
 describe("TryAndCatch Unified API", () => {
   it("should provide all expected methods", () => {
@@ -444,6 +791,6 @@ describe("TryAndCatch Unified API", () => {
 
   it("safe method should work identically to tryAndCatch", () => {
     const success = TryAndCatch.safe(() => "test");
-    expect(success).toEqual({ result: "test", error: null });
+    expect(success).toEqual({ ok: true, result: "test", error: null });
   });
 });
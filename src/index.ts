@@ -2,244 +2,3813 @@
 // Performance-optimized error handling addressing critical user feedback
 // FIXES: Performance overhead, memory leaks, tree-shaking, API confusion
 
-// Core result type
-export type Result<T> = {
+// Core result type - discriminated on `ok` so `result`/`error` narrow together
+// (`cleanupError` is only set when opting in with `cleanupErrors: "report"`)
+export type Success<T> = {
+  ok: true;
+  result: T;
+  error: null;
+  cleanupError?: Error;
+};
+export type Failure<E = Error> = {
+  ok: false;
+  result: null;
+  error: E;
+  cleanupError?: Error;
+};
+export type Result<T, E = Error> = Success<T> | Failure<E>;
+
+// Pre-discriminant `{ result, error }` shape, still accepted by every helper
+export type LegacyResult<T, E = Error> = {
   result: T | null;
-  error: Error | null;
+  error: E | null;
 };
 
 // Enhanced result with retry information (tree-shakeable)
-export type RetryResult<T> = Result<T> & {
+export type RetryResult<T, E = Error> = Result<T, E> & {
   attempts: number;
-  errors: Error[];
+  errors: E[];
   totalTime: number;
+  history: AttemptRecord<E>[];
+};
+
+// Timing of a single attempt that actually ran
+export interface AttemptRecord<E = Error> {
+  attempt: number;
+  startedAt: number;
+  duration: number;
+  error: E | null;
+}
+
+// Sync functions yield a Result, async ones a Promise of one
+// (`any` stays a sync Result and throw-only functions a Result<never, E>)
+export type ResultOf<R, E = Error> = 0 extends 1 & R
+  ? Result<R, E>
+  : [R] extends [never]
+  ? Result<never, E>
+  : R extends Promise<infer T>
+  ? Promise<Result<T, E>>
+  : Result<R, E>;
+
+// ResultOf for a `validate` option: the value is whatever the validator
+// proves, whether `fn` returned `any` (JSON.parse) or a Promise
+export type ValidatedResultOf<R, T, E = Error> = 0 extends 1 & R
+  ? Result<T, E | ValidationError>
+  : R extends Promise<unknown>
+  ? Promise<Result<T, E | ValidationError>>
+  : Result<T, E | ValidationError>;
+
+// Maps whatever was thrown onto the caller's error type
+export type ErrorMapper<E> = (error: unknown) => E;
+
+export type Cleanup = () => void | Promise<void>;
+
+// Per-call options (the bare `onFinally` callback is still accepted)
+export interface TryAndCatchOptions<E = Error> {
+  // Several callbacks run last-registered-first, each even if another fails
+  onFinally?: Cleanup | Cleanup[];
+  // "log" (default) logs and discards cleanup failures,
+  // "report" also attaches them to the Result as `cleanupError`
+  cleanupErrors?: "log" | "report";
+  mapError?: ErrorMapper<E>;
+  // Name reported in diagnostics
+  operation?: string;
+  // When set (and there's no mapError), failures become a TryAndCatchError
+  // carrying `operation` and this bag, with the thrown value as `cause`
+  context?: ErrorContext;
+  logger?: Logger;
+  // Counts cleanup failures of a named operation
+  metrics?: MetricsRegistry;
+  // Wraps a named operation in a span, with cleanup events
+  tracer?: Tracer;
+}
+
+export interface ValidateOptions<T, E = Error> extends TryAndCatchOptions<E> {
+  // Checked after a success; a mismatch fails with a ValidationError,
+  // which `mapError` does not see
+  validate: Validator<T>;
+}
+
+// Async-only options: `signal` cancels the operation
+export interface TryAndCatchAsyncOptions<E = Error>
+  extends TryAndCatchOptions<E> {
+  signal?: AbortSignal;
+}
+
+// Passed to `fn` alongside the attempt's signal (attempts are 1-based)
+export interface AttemptContext<E = Error> {
+  attempt: number;
+  signal: AbortSignal;
+  previousError: E | null;
+  elapsed: number;
+}
+
+export interface RetryHooks<E = Error, T = unknown> {
+  onRetry?: (
+    error: E,
+    info: { attempt: number; nextDelayMs: number; elapsed: number }
+  ) => void;
+  onGiveUp?: (
+    error: E,
+    info: { attempts: number; elapsed: number; errors: E[] }
+  ) => void;
+  onSuccess?: (result: T, info: { attempts: number; elapsed: number }) => void;
+}
+
+// What `shouldRetry` or `delay` can return instead of a boolean / number:
+// stop now, retry immediately, or retry after `delayMs`
+export type RetryDecision =
+  | { retry: false }
+  | { retry: true; delayMs?: number };
+
+export const RetryDecisions = {
+  stop: (): RetryDecision => ({ retry: false }),
+  now: (): RetryDecision => ({ retry: true, delayMs: 0 }),
+  after: (delayMs: number): RetryDecision => ({ retry: true, delayMs }),
+};
+
+// Passed to `shouldRetry` and `delay` for the attempt that just failed
+// (`attempt` is 1-based; `retryAfterMs` is the hint found on the error)
+export interface RetryContext<E = Error> {
+  attempt: number;
+  elapsed: number;
+  errors: E[];
+  retryAfterMs: number | undefined;
+}
+
+// Minimal retry options (focused on performance)
+export interface RetryOptions<E = Error, T = unknown> extends RetryHooks<E, T> {
+  maxRetries: number;
+  // The first argument stays the 0-based retry index used by RetryStrategies
+  delay?:
+    | number
+    | ((
+        attempt: number,
+        error: E,
+        context: RetryContext<E>
+      ) => number | RetryDecision);
+  shouldRetry?: (error: E, context: RetryContext<E>) => boolean | RetryDecision;
+  // Wait at least as long as a Retry-After hint on the error (default true)
+  respectRetryAfter?: boolean;
+  // Upper bound for a Retry-After hint, so a server can't stall us forever
+  maxRetryAfterMs?: number;
+  timeout?: number;
+  mapError?: ErrorMapper<E>;
+  signal?: AbortSignal;
+  // Attempts go through the breaker; an open circuit stops retrying
+  circuitBreaker?: CircuitBreaker<E>;
+  // Each attempt holds a slot; a rejected attempt is not retried
+  bulkhead?: Bulkhead;
+  operation?: string;
+  // Wraps the final error like TryAndCatchOptions.context (`errors` stay raw)
+  context?: ErrorContext;
+  logger?: Logger;
+  clock?: Clock;
+  // Records outcome, attempts, retries and latency of a named operation
+  metrics?: MetricsRegistry;
+  // Traces a named operation: a parent span, a child span per attempt and
+  // a "retry" event per scheduled retry
+  tracer?: Tracer;
+}
+
+export interface WithRetryOptions<T = unknown> extends RetryHooks<Error, T> {
+  signal?: AbortSignal;
+  clock?: Clock;
+  // Every error is retried by default; ErrorTypes.isRetryable limits retries
+  // to network, timeout, rate-limited and transient errors
+  shouldRetry?: RetryOptions<Error>["shouldRetry"];
+}
+
+// Thrown into a Result when an attempt exceeds its `timeout`
+export class TimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Operation timed out after ${timeout}ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+// Thrown into a Result when the caller's AbortSignal fires
+export class AbortError extends Error {
+  constructor(message = "Operation aborted") {
+    super(message);
+    this.name = "AbortError";
+  }
+}
+
+// Ids, parameters and other "what were we doing" details
+export type ErrorContext = Record<string, unknown>;
+
+export interface TryAndCatchErrorOptions {
+  cause?: unknown;
+  operation?: string;
+  context?: ErrorContext;
+}
+
+// Standard non-enumerable `cause`, only when one was given (even undefined)
+function assignCause(error: Error, options: { cause?: unknown }): void {
+  if ("cause" in options) defineHidden(error, "cause", options.cause);
+}
+
+// Keeps the original thrown value (Error or not) as the standard `cause`
+export class TryAndCatchError extends Error {
+  declare readonly cause: unknown;
+  readonly operation?: string;
+  readonly context: ErrorContext;
+
+  constructor(message: string, options: TryAndCatchErrorOptions = {}) {
+    super(message);
+    this.name = "TryAndCatchError";
+    assignCause(this, options);
+    if (options.operation !== undefined) this.operation = options.operation;
+    this.context = options.context ?? {};
+  }
+}
+
+// One failed check; `path` locates it in the input (["items", 0, "id"])
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+  code?: string;
+}
+
+// Failure Result of safeParse and the `validate` option
+export class ValidationError extends Error {
+  declare readonly cause: unknown;
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], options: { cause?: unknown } = {}) {
+    super(
+      `Validation failed: ${issues
+        .map(({ path, message }) =>
+          path.length ? `${path.join(".")}: ${message}` : message
+        )
+        .join("; ")}`
+    );
+    this.name = "ValidationError";
+    this.issues = issues;
+    assignCause(this, options);
+  }
+}
+
+// Result factories - keep the discriminant consistent everywhere
+export function success<T>(result: T): Success<T> {
+  return { ok: true, result, error: null };
+}
+
+export function failure<E = Error>(error: E): Failure<E> {
+  return { ok: false, result: null, error };
+}
+
+/**
+ * Upgrades a hand-built `{ result, error }` object to a discriminated Result
+ */
+export function fromLegacy<T, E = Error>(
+  legacy: LegacyResult<T, E>
+): Result<T, E> {
+  return legacy.error === null || legacy.error === undefined
+    ? success(legacy.result as T)
+    : failure(legacy.error);
+}
+
+// Single normalisation point for non-Error throws
+function toError(error: unknown): Error {
+  return error instanceof Error
+    ? error
+    : new TryAndCatchError(String(error), { cause: error });
+}
+
+type ErrorDescription = { operation?: string; context?: ErrorContext };
+
+function normalizeError<E>(
+  error: unknown,
+  mapError?: ErrorMapper<E>,
+  describe?: ErrorDescription
+): E {
+  if (mapError) return mapError(error);
+  return (describe?.context
+    ? describeError(error, describe)
+    : toError(error)) as unknown as E;
+}
+
+function describeError(error: unknown, describe: ErrorDescription): Error {
+  const { operation, context } = describe;
+  const message = error instanceof Error ? error.message : String(error);
+  return new TryAndCatchError(
+    operation ? `${operation}: ${message}` : message,
+    { cause: error, operation, context }
+  );
+}
+
+/**
+ * Wraps any thrown value with a higher-level message and context,
+ * keeping it as `cause`
+ */
+export function wrapError(
+  error: unknown,
+  message: string,
+  context?: ErrorContext
+): TryAndCatchError {
+  return new TryAndCatchError(message, { cause: error, context });
+}
+
+/**
+ * One line per link of the cause chain, e.g.
+ * "TryAndCatchError: load user {"id":7}\n  caused by: Error: ECONNRESET"
+ */
+export function formatErrorChain(error: unknown): string {
+  const lines: string[] = [];
+  const seen = new Set<unknown>();
+  let current: unknown = error;
+  for (let depth = 0; depth < 10 && !seen.has(current); depth++) {
+    seen.add(current);
+    lines.push((depth ? "  caused by: " : "") + describeLink(current));
+    const next = asBag(current)?.cause;
+    if (next === undefined || !(current instanceof Error)) break;
+    current = next;
+  }
+  return lines.join("\n");
+}
+
+function describeLink(value: unknown): string {
+  if (!(value instanceof Error)) {
+    return typeof value === "string" ? JSON.stringify(value) : String(value);
+  }
+  const line = `${value.name}: ${value.message}`;
+  const context = value instanceof TryAndCatchError ? value.context : undefined;
+  return context && Object.keys(context).length
+    ? `${line} ${safeStringify(context)}`
+    : line;
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+// Time (tree-shakeable) - every timer and timestamp goes through a Clock
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): TimerHandle;
+  clearTimeout(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) =>
+    clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Lets queued promise callbacks run before the next virtual timer fires
+const flushMicrotasks = () =>
+  new Promise<void>((resolve) =>
+    typeof setImmediate === "function"
+      ? setImmediate(resolve)
+      : setTimeout(resolve, 0)
+  );
+
+interface VirtualTimer {
+  id: number;
+  at: number;
+  callback: () => void;
+}
+
+/**
+ * Manually driven clock for tests: timers only fire from `advance`/`runAll`,
+ * and `scheduled` records every delay that was asked for.
+ */
+export class VirtualClock implements Clock {
+  readonly scheduled: number[] = [];
+  private timers: VirtualTimer[] = [];
+  private nextId = 1;
+
+  constructor(private current = 0) {}
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, ms: number): TimerHandle {
+    const delay = Math.max(0, ms || 0);
+    const timer = { id: this.nextId++, at: this.current + delay, callback };
+    this.scheduled.push(delay);
+    // Stable order: equal deadlines fire in scheduling order
+    const index = this.timers.findIndex((t) => t.at > timer.at);
+    this.timers.splice(index === -1 ? this.timers.length : index, 0, timer);
+    return timer.id;
+  }
+
+  clearTimeout(handle: TimerHandle): void {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  // Number of timers waiting to fire
+  get pending(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Moves time forward by `ms`, firing due timers in order and letting
+   * promise callbacks settle in between so follow-up timers are seen too
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    await flushMicrotasks();
+    while (this.timers.length > 0 && this.timers[0].at <= target) {
+      const timer = this.timers.shift()!;
+      this.current = timer.at;
+      timer.callback();
+      await flushMicrotasks();
+    }
+    this.current = target;
+  }
+
+  // Fires timers until none are left; throws if they keep rescheduling
+  async runAll(limit = 1000): Promise<void> {
+    await flushMicrotasks();
+    for (let fired = 0; this.timers.length > 0; fired++) {
+      if (fired >= limit) {
+        throw new Error(`VirtualClock: more than ${limit} timers fired`);
+      }
+      await this.advance(this.timers[0].at - this.current);
+    }
+  }
+}
+
+// Pluggable diagnostics - nothing is written to the console directly
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogPhase = "cleanup" | "retry" | "unhandled";
+
+export interface LogEntry {
+  level: LogLevel;
+  phase: LogPhase;
+  message: string;
+  operation?: string;
+  context?: ErrorContext;
+  error?: unknown;
+  attempt?: number;
+  delayMs?: number;
+}
+
+export type Logger = (entry: LogEntry) => void;
+
+// warnOnError's message already names the error, so it stays one line
+export const consoleLogger: Logger = (entry) => {
+  if (entry.error === undefined || entry.phase === "unhandled") {
+    console[entry.level](entry.message);
+  } else {
+    console[entry.level](entry.message, entry.error);
+  }
+};
+
+export const silentLogger: Logger = () => {};
+
+// Structural shapes so adapters need no dependency on pino or winston
+export interface PinoLike {
+  debug(obj: object, msg?: string): void;
+  info(obj: object, msg?: string): void;
+  warn(obj: object, msg?: string): void;
+  error(obj: object, msg?: string): void;
+}
+
+export interface WinstonLike {
+  log(info: { level: string; message: string; [key: string]: unknown }): void;
+}
+
+export function pinoLogger(pino: PinoLike): Logger {
+  return ({ level, message, error, ...fields }) =>
+    pino[level](
+      error === undefined ? fields : { ...fields, err: error },
+      message
+    );
+}
+
+export function winstonLogger(winston: WinstonLike): Logger {
+  return (entry) => winston.log({ ...entry });
+}
+
+export interface TryAndCatchConfig {
+  logger: Logger;
+  // Entries below this level are dropped ("silent" drops everything)
+  logLevel: LogLevel | "silent";
+  // Default time source for retries, timeouts, breakers and bulkheads
+  clock: Clock;
+  // Opt-in metrics; undefined (the default) records nothing
+  metrics?: MetricsRegistry;
+  // Opt-in tracing; undefined (the default) starts no spans
+  tracer?: Tracer;
+}
+
+const LOG_LEVELS = { debug: 0, info: 1, warn: 2, error: 3, silent: 4 };
+
+const config: TryAndCatchConfig = {
+  logger: consoleLogger,
+  logLevel: "warn",
+  clock: systemClock,
 };
 
-// Minimal retry options (focused on performance)
-export interface RetryOptions {
-  maxRetries: number;
-  delay?: number | ((attempt: number) => number);
-  shouldRetry?: (error: Error) => boolean;
-  timeout?: number;
+// Resolved on use so `configure({ clock })` also reaches existing instances
+const clockOf = (clock?: Clock): Clock => clock ?? config.clock;
+
+/**
+ * Global configuration; per-call `logger`/`clock` options still take precedence
+ */
+export function configure(options: Partial<TryAndCatchConfig>): void {
+  Object.assign(config, options);
+}
+
+function log(entry: LogEntry, logger?: Logger): void {
+  if (LOG_LEVELS[entry.level] < LOG_LEVELS[config.logLevel]) return;
+  (logger ?? config.logger)(entry);
+}
+
+// Metrics (tree-shakeable) - opt-in, recorded per named `operation` only.
+// Nothing is collected until a registry is configured or passed per call.
+
+// Latency histogram upper bounds in ms
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+export interface OperationMetrics {
+  successes: number;
+  failures: number;
+  attempts: number;
+  retries: number;
+  retryDelayMs: number;
+  // Runs of a non-primary fallback step, by source
+  fallbacks: Record<string, number>;
+  cleanupFailures: number;
+  // Cumulative counts per upper bound (ms), Prometheus-style
+  latency: { buckets: Record<number, number>; count: number; sumMs: number };
+}
+
+export type MetricsSnapshot = Record<string, OperationMetrics>;
+
+export class MetricsRegistry {
+  private readonly buckets: number[];
+  private operations = new Map<string, OperationMetrics>();
+
+  constructor(options: { buckets?: number[] } = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b
+    );
+  }
+
+  recordCall(
+    operation: string,
+    ok: boolean,
+    durationMs: number,
+    attempts = 1
+  ): void {
+    const metrics = this.metricsFor(operation);
+    if (ok) metrics.successes++;
+    else metrics.failures++;
+    metrics.attempts += attempts;
+    const { latency } = metrics;
+    latency.count++;
+    latency.sumMs += durationMs;
+    for (const bound of this.buckets) {
+      if (durationMs <= bound) latency.buckets[bound]++;
+    }
+  }
+
+  recordRetry(operation: string, delayMs: number): void {
+    const metrics = this.metricsFor(operation);
+    metrics.retries++;
+    metrics.retryDelayMs += delayMs;
+  }
+
+  recordFallback(operation: string, source: string | number): void {
+    const { fallbacks } = this.metricsFor(operation);
+    fallbacks[source] = (fallbacks[source] ?? 0) + 1;
+  }
+
+  recordCleanupFailure(operation: string): void {
+    this.metricsFor(operation).cleanupFailures++;
+  }
+
+  // Deep copy, safe to keep or serialise
+  snapshot(): MetricsSnapshot {
+    const snapshot: MetricsSnapshot = {};
+    this.operations.forEach((metrics, operation) => {
+      snapshot[operation] = {
+        ...metrics,
+        fallbacks: { ...metrics.fallbacks },
+        latency: {
+          ...metrics.latency,
+          buckets: { ...metrics.latency.buckets },
+        },
+      };
+    });
+    return snapshot;
+  }
+
+  reset(): void {
+    this.operations.clear();
+  }
+
+  /**
+   * Prometheus text exposition format (durations in seconds), ready to be
+   * served from a /metrics handler
+   */
+  toPrometheus(prefix = "try_and_catch"): string {
+    const lines: string[] = [];
+    const family = (name: string, type: string, help: string) =>
+      lines.push(
+        `# HELP ${prefix}_${name} ${help}`,
+        `# TYPE ${prefix}_${name} ${type}`
+      );
+    const sample = (
+      name: string,
+      labels: Record<string, string>,
+      value: number
+    ) => lines.push(`${prefix}_${name}{${formatLabels(labels)}} ${value}`);
+    const all = [...this.operations];
+
+    family("calls_total", "counter", "Completed operations by outcome.");
+    for (const [operation, m] of all) {
+      sample("calls_total", { operation, outcome: "success" }, m.successes);
+      sample("calls_total", { operation, outcome: "failure" }, m.failures);
+    }
+    family("attempts_total", "counter", "Attempts made, including retries.");
+    for (const [operation, m] of all) {
+      sample("attempts_total", { operation }, m.attempts);
+    }
+    family("retries_total", "counter", "Retries scheduled.");
+    for (const [operation, m] of all) {
+      sample("retries_total", { operation }, m.retries);
+    }
+    family(
+      "retry_delay_seconds_total",
+      "counter",
+      "Time spent waiting between retries."
+    );
+    for (const [operation, m] of all) {
+      sample("retry_delay_seconds_total", { operation }, m.retryDelayMs / 1000);
+    }
+    family("fallbacks_total", "counter", "Fallback steps run, by source.");
+    for (const [operation, m] of all) {
+      for (const [source, count] of Object.entries(m.fallbacks)) {
+        sample("fallbacks_total", { operation, source }, count);
+      }
+    }
+    family(
+      "cleanup_failures_total",
+      "counter",
+      "Cleanup callbacks that failed."
+    );
+    for (const [operation, m] of all) {
+      sample("cleanup_failures_total", { operation }, m.cleanupFailures);
+    }
+    family("duration_seconds", "histogram", "Operation latency.");
+    for (const [operation, { latency }] of all) {
+      for (const bound of this.buckets) {
+        sample(
+          "duration_seconds_bucket",
+          { operation, le: String(bound / 1000) },
+          latency.buckets[bound]
+        );
+      }
+      sample(
+        "duration_seconds_bucket",
+        { operation, le: "+Inf" },
+        latency.count
+      );
+      sample("duration_seconds_sum", { operation }, latency.sumMs / 1000);
+      sample("duration_seconds_count", { operation }, latency.count);
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  private metricsFor(operation: string): OperationMetrics {
+    let metrics = this.operations.get(operation);
+    if (!metrics) {
+      const buckets: Record<number, number> = {};
+      this.buckets.forEach((bound) => (buckets[bound] = 0));
+      metrics = {
+        successes: 0,
+        failures: 0,
+        attempts: 0,
+        retries: 0,
+        retryDelayMs: 0,
+        fallbacks: {},
+        cleanupFailures: 0,
+        latency: { buckets, count: 0, sumMs: 0 },
+      };
+      this.operations.set(operation, metrics);
+    }
+    return metrics;
+  }
+}
+
+const formatLabels = (labels: Record<string, string>) =>
+  Object.entries(labels)
+    .map(
+      ([key, value]) =>
+        `${key}="${value
+          .replace(/\\/g, "\\\\")
+          .replace(/"/g, '\\"')
+          .replace(/\n/g, "\\n")}"`
+    )
+    .join(",");
+
+// Registry for a named operation, or undefined when metrics are off
+const metricsOf = (operation?: string, metrics?: MetricsRegistry) =>
+  operation === undefined ? undefined : metrics ?? config.metrics;
+
+// Tracing (tree-shakeable) - opt-in spans for named operations, through a
+// minimal Tracer the caller supplies (see otelTracer for OpenTelemetry)
+
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+export interface Span {
+  setAttribute(key: string, value: string | number | boolean): void;
+  addEvent(name: string, attributes?: SpanAttributes): void;
+  recordException(error: unknown): void;
+  setStatus(status: "ok" | "error", message?: string): void;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(
+    name: string,
+    options?: { parent?: Span; attributes?: SpanAttributes }
+  ): Span;
+}
+
+// Structural subset of @opentelemetry/api, so no dependency is needed
+export interface OtelSpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  addEvent(name: string, attributes?: SpanAttributes): unknown;
+  recordException(exception: Error | string): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+export interface OtelTracerLike {
+  startSpan(
+    name: string,
+    options?: { attributes?: SpanAttributes },
+    context?: unknown
+  ): OtelSpanLike;
+}
+
+export interface OtelApiLike {
+  trace: { setSpan(context: unknown, span: OtelSpanLike): unknown };
+  context: { active(): unknown };
+}
+
+// SpanStatusCode.OK / SpanStatusCode.ERROR
+const OTEL_STATUS = { ok: 1, error: 2 } as const;
+
+/**
+ * Adapts an OpenTelemetry tracer, e.g.
+ * `otelTracer(trace.getTracer("app"), { trace, context })`.
+ * Without `api`, attempt spans are parented by whatever context is active.
+ */
+export function otelTracer(tracer: OtelTracerLike, api?: OtelApiLike): Tracer {
+  const native = new WeakMap<Span, OtelSpanLike>();
+  return {
+    startSpan(name, options = {}) {
+      const parent = options.parent && native.get(options.parent);
+      const otel = tracer.startSpan(
+        name,
+        { attributes: options.attributes },
+        parent && api
+          ? api.trace.setSpan(api.context.active(), parent)
+          : undefined
+      );
+      const span: Span = {
+        setAttribute: (key, value) => void otel.setAttribute(key, value),
+        addEvent: (event, attributes) => void otel.addEvent(event, attributes),
+        recordException: (error) =>
+          void otel.recordException(
+            error instanceof Error ? error : String(error)
+          ),
+        setStatus: (status, message) =>
+          void otel.setStatus({ code: OTEL_STATUS[status], message }),
+        end: () => otel.end(),
+      };
+      native.set(span, otel);
+      return span;
+    },
+  };
+}
+
+export class InMemorySpan implements Span {
+  readonly attributes: SpanAttributes;
+  readonly events: {
+    name: string;
+    attributes: SpanAttributes;
+    time: number;
+  }[] = [];
+  readonly exceptions: unknown[] = [];
+  status: "unset" | "ok" | "error" = "unset";
+  statusMessage?: string;
+  readonly startTime: number;
+  endTime?: number;
+
+  constructor(
+    readonly name: string,
+    readonly parent: InMemorySpan | undefined,
+    attributes: SpanAttributes,
+    private readonly clock: Clock
+  ) {
+    this.attributes = { ...attributes };
+    this.startTime = clock.now();
+  }
+
+  get ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.attributes[key] = value;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): void {
+    this.events.push({ name, attributes, time: this.clock.now() });
+  }
+
+  recordException(error: unknown): void {
+    this.exceptions.push(error);
+  }
+
+  setStatus(status: "ok" | "error", message?: string): void {
+    this.status = status;
+    this.statusMessage = message;
+  }
+
+  end(): void {
+    this.endTime ??= this.clock.now();
+  }
+}
+
+/**
+ * Records spans in memory, in start order - handy in tests
+ */
+export class InMemoryTracer implements Tracer {
+  readonly spans: InMemorySpan[] = [];
+
+  constructor(private readonly clock?: Clock) {}
+
+  startSpan(
+    name: string,
+    options: { parent?: Span; attributes?: SpanAttributes } = {}
+  ): InMemorySpan {
+    const parent =
+      options.parent instanceof InMemorySpan ? options.parent : undefined;
+    const span = new InMemorySpan(
+      name,
+      parent,
+      options.attributes ?? {},
+      clockOf(this.clock)
+    );
+    this.spans.push(span);
+    return span;
+  }
+
+  children(span: InMemorySpan): InMemorySpan[] {
+    return this.spans.filter((child) => child.parent === span);
+  }
+
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+// Tracer for a named operation, or undefined when tracing is off
+const tracerOf = (operation?: string, tracer?: Tracer) =>
+  operation === undefined ? undefined : tracer ?? config.tracer;
+
+function endSpan<R extends Result<unknown, unknown>>(span: Span, result: R): R {
+  if (result.ok) {
+    span.setStatus("ok");
+  } else {
+    span.recordException(result.error);
+    span.setStatus("error", toError(result.error).message);
+  }
+  span.end();
+  return result;
+}
+
+// Validation (tree-shakeable) - structural, so zod, valibot, io-ts and
+// friends plug in without a dependency
+
+// `{ parse }` (zod schemas) or a type guard (io-ts `Codec.is`); wrap
+// function-style libraries: `{ parse: (x) => v.parse(Schema, x) }`
+export type Validator<T> =
+  | { parse(input: unknown): T }
+  | ((input: unknown) => input is T);
+
+/**
+ * Checks an untrusted value, narrowing `result` to the validated type.
+ * Issues thrown by the validator (zod/valibot `issues`, yup `inner`) keep
+ * their paths; anything else becomes a single issue at the root.
+ */
+export function safeParse<T>(
+  input: unknown,
+  validator: Validator<T>
+): Result<T, ValidationError> {
+  try {
+    if (typeof validator !== "function") {
+      return success(validator.parse(input));
+    }
+    return validator(input)
+      ? success(input)
+      : failure(
+          new ValidationError([
+            { path: [], message: "Value does not match the expected type" },
+          ])
+        );
+  } catch (error) {
+    return failure(
+      error instanceof ValidationError
+        ? error
+        : new ValidationError(issuesOf(error), { cause: error })
+    );
+  }
+}
+
+function issuesOf(error: unknown): ValidationIssue[] {
+  const bag = asBag(error);
+  const raw = Array.isArray(bag?.issues)
+    ? bag.issues
+    : Array.isArray(bag?.inner) && bag.inner.length
+    ? bag.inner
+    : [error];
+  return raw.map((item) => {
+    const issue = asBag(item);
+    return {
+      path: toPath(issue?.path),
+      message:
+        typeof issue?.message === "string"
+          ? issue.message
+          : toError(item).message,
+      ...(typeof issue?.code === "string" && { code: issue.code }),
+    };
+  });
+}
+
+// ["a", 0], [{ key: "a" }] (valibot) and "a[0].b" (yup) all normalise
+function toPath(path: unknown): (string | number)[] {
+  if (typeof path === "string") {
+    return path
+      .split(/[.[\]]/)
+      .filter(Boolean)
+      .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+  }
+  if (!Array.isArray(path)) return [];
+  return path.map((segment) => {
+    if (typeof segment === "string" || typeof segment === "number") {
+      return segment;
+    }
+    const key = asBag(segment)?.key;
+    return typeof key === "number" ? key : String(key ?? segment);
+  });
+}
+
+// Replaces a successful value with its validated form, keeping extras such
+// as `cleanupError`; a failed Result passes through untouched
+function validateResult<T, E>(
+  settled: Result<unknown, E>,
+  validator: Validator<T>
+): Result<T, E | ValidationError> {
+  if (!settled.ok) return settled;
+  const parsed = safeParse(settled.result, validator);
+  return parsed.ok
+    ? { ...settled, result: parsed.result }
+    : { ...settled, ok: false, result: null, error: parsed.error };
+}
+
+type CleanupOptions = Pick<
+  TryAndCatchOptions<unknown>,
+  "cleanupErrors" | "logger" | "operation" | "metrics" | "tracer"
+> & { span?: Span };
+
+const NO_OPTIONS: CleanupOptions = {};
+
+function logCleanupFailure(error: unknown, options: CleanupOptions): void {
+  options.span?.addEvent("cleanup.failed", {
+    "exception.message": toError(error).message,
+  });
+  metricsOf(options.operation, options.metrics)?.recordCleanupFailure(
+    options.operation!
+  );
+  log(
+    {
+      level: "warn",
+      phase: "cleanup",
+      message: "Cleanup failed:",
+      error,
+      operation: options.operation,
+    },
+    options.logger
+  );
+}
+
+function attachCleanupErrors<R extends Result<unknown, unknown>>(
+  result: R,
+  errors: Error[],
+  options: CleanupOptions
+): R {
+  if (errors.length && options.cleanupErrors === "report") {
+    result.cleanupError =
+      errors.length === 1
+        ? errors[0]
+        : new AggregateError(errors, `${errors.length} cleanups failed`);
+  }
+  return result;
+}
+
+// Runs cleanups LIFO; async cleanups from a sync call are not awaited
+function finalizeSync<R extends Result<unknown, unknown>>(
+  result: R,
+  onFinally: Cleanup | Cleanup[],
+  options: CleanupOptions
+): R {
+  const cleanups = Array.isArray(onFinally) ? onFinally : [onFinally];
+  const errors: Error[] = [];
+  options.span?.addEvent("cleanup", { "cleanup.count": cleanups.length });
+  for (let i = cleanups.length - 1; i >= 0; i--) {
+    try {
+      const pending = cleanups[i]();
+      if (pending instanceof Promise) {
+        pending.catch((e) => logCleanupFailure(e, options));
+      }
+    } catch (e) {
+      logCleanupFailure(e, options);
+      errors.push(toError(e));
+    }
+  }
+  return attachCleanupErrors(result, errors, options);
+}
+
+async function finalizeAsync<R extends Result<unknown, unknown>>(
+  result: R,
+  onFinally: Cleanup | Cleanup[],
+  options: CleanupOptions
+): Promise<R> {
+  const cleanups = Array.isArray(onFinally) ? onFinally : [onFinally];
+  const errors: Error[] = [];
+  options.span?.addEvent("cleanup", { "cleanup.count": cleanups.length });
+  for (let i = cleanups.length - 1; i >= 0; i--) {
+    try {
+      await cleanups[i]();
+    } catch (e) {
+      logCleanupFailure(e, options);
+      errors.push(toError(e));
+    }
+  }
+  return attachCleanupErrors(result, errors, options);
+}
+
+// Abortable sleep - clears its timer and listener whichever way it settles
+function sleep(
+  ms: number,
+  signal?: AbortSignal,
+  clock: Clock = config.clock
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AbortError());
+      return;
+    }
+    const onAbort = () => {
+      clock.clearTimeout(timer);
+      reject(new AbortError());
+    };
+    const timer = clock.setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs a single attempt with its own AbortController.
+ * The attempt is aborted (and rejects) on timeout or when `signal` fires;
+ * the timer and listener are always released so nothing keeps the process alive.
+ */
+function runAttempt<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeout?: number,
+  signal?: AbortSignal,
+  clock: Clock = config.clock
+): Promise<T> {
+  if (signal?.aborted) {
+    return Promise.reject(new AbortError());
+  }
+
+  const controller = new AbortController();
+  let pending: Promise<T>;
+  try {
+    pending = Promise.resolve(fn(controller.signal));
+  } catch (error) {
+    return Promise.reject(error);
+  }
+  if (!timeout && !signal) {
+    return pending;
+  }
+
+  let timer: TimerHandle | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const interrupted = new Promise<never>((_, reject) => {
+    if (timeout) {
+      timer = clock.setTimeout(() => {
+        reject(new TimeoutError(timeout));
+        controller.abort();
+      }, timeout);
+    }
+    if (signal) {
+      onAbort = () => {
+        reject(new AbortError());
+        controller.abort();
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+  });
+
+  return Promise.race([pending, interrupted]).finally(() => {
+    if (timer !== undefined) clock.clearTimeout(timer);
+    if (onAbort) signal!.removeEventListener("abort", onAbort);
+  });
+}
+
+/**
+ * High-performance error handling with minimal overhead
+ *
+ * OPTIMIZATIONS:
+ * - Removed complex error processing (50% performance improvement)
+ * - Simplified cleanup handling (reduced memory usage)
+ * - Streamlined async detection (faster execution)
+ * - Minimal error object creation (reduced GC pressure)
+ */
+export function tryAndCatch<T, R, E = Error>(
+  fn: () => R,
+  options: ValidateOptions<T, E>
+): ValidatedResultOf<R, T, E>;
+export function tryAndCatch<R, E = Error>(
+  fn: () => R,
+  options?: Cleanup | TryAndCatchOptions<E>
+): ResultOf<R, E>;
+// Explicit value type for async work: tryAndCatch<User>(async () => load())
+export function tryAndCatch<T, E = Error>(
+  fn: () => Promise<T>,
+  options?: Cleanup | TryAndCatchOptions<E>
+): Promise<Result<T, E>>;
+export function tryAndCatch<T, E = Error>(
+  fn: () => T | Promise<T>,
+  options?: Cleanup | Partial<ValidateOptions<unknown, E>>
+): Result<unknown, unknown> | Promise<Result<unknown, unknown>> {
+  const onFinally =
+    typeof options === "function" ? options : options?.onFinally;
+  const mapError = typeof options === "object" ? options.mapError : undefined;
+  const validate = typeof options === "object" ? options.validate : undefined;
+  const cleanupOptions = typeof options === "object" ? options : NO_OPTIONS;
+  const tracer = tracerOf(cleanupOptions.operation, cleanupOptions.tracer);
+  if (!tracer && !validate) {
+    return settle(fn, onFinally, mapError, cleanupOptions);
+  }
+
+  const span = tracer?.startSpan(cleanupOptions.operation!);
+  const finish = (settled: Result<T, E>) => {
+    const result = validate ? validateResult(settled, validate) : settled;
+    return span ? endSpan(span, result) : result;
+  };
+  const settled = settle(
+    fn,
+    onFinally,
+    mapError,
+    span ? { ...cleanupOptions, span } : cleanupOptions
+  );
+  return settled instanceof Promise ? settled.then(finish) : finish(settled);
+}
+
+function settle<T, E>(
+  fn: () => T | Promise<T>,
+  onFinally: Cleanup | Cleanup[] | undefined,
+  mapError: ErrorMapper<E> | undefined,
+  cleanupOptions: CleanupOptions & ErrorDescription
+): Result<T, E> | Promise<Result<T, E>> {
+  try {
+    const result = fn();
+
+    if (result instanceof Promise) {
+      return result
+        .then(
+          (result): Result<T, E> => success(result),
+          (error) => failure(normalizeError(error, mapError, cleanupOptions))
+        )
+        .then((settled) =>
+          onFinally
+            ? finalizeAsync(settled, onFinally, cleanupOptions)
+            : settled
+        );
+    }
+
+    // Sync path - optimized cleanup
+    const settled: Result<T, E> = { ok: true, result, error: null };
+    return onFinally
+      ? finalizeSync(settled, onFinally, cleanupOptions)
+      : settled;
+  } catch (error) {
+    // Fast error handling - no context processing overhead
+    const settled: Result<T, E> = {
+      ok: false,
+      result: null,
+      error: normalizeError(error, mapError, cleanupOptions),
+    };
+    return onFinally
+      ? finalizeSync(settled, onFinally, cleanupOptions)
+      : settled;
+  }
+}
+
+/**
+ * RECOMMENDED: Main entry point for most use cases
+ * Improves API discoverability and reduces confusion
+ */
+export const safe = tryAndCatch;
+
+/**
+ * Explicitly async version - eliminates linter warnings
+ * Use this when you know your function is async
+ */
+export function tryAndCatchAsync<T, E = Error>(
+  fn: (signal?: AbortSignal) => Promise<unknown>,
+  options: TryAndCatchAsyncOptions<E> & { validate: Validator<T> }
+): Promise<Result<T, E | ValidationError>>;
+export function tryAndCatchAsync<T, E = Error>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  options?: Cleanup | TryAndCatchAsyncOptions<E>
+): Promise<Result<T, E>>;
+export async function tryAndCatchAsync<T, E = Error>(
+  fn: (signal?: AbortSignal) => Promise<T>,
+  options?:
+    | Cleanup
+    | (TryAndCatchAsyncOptions<E> & { validate?: Validator<unknown> })
+): Promise<Result<unknown, unknown>> {
+  const onFinally =
+    typeof options === "function" ? options : options?.onFinally;
+  const mapError = typeof options === "object" ? options.mapError : undefined;
+  const signal = typeof options === "object" ? options.signal : undefined;
+  const cleanupOptions = typeof options === "object" ? options : NO_OPTIONS;
+  const span = tracerOf(
+    cleanupOptions.operation,
+    cleanupOptions.tracer
+  )?.startSpan(cleanupOptions.operation!);
+
+  let settled: Result<T, E>;
+  try {
+    const result = await (signal ? runAttempt(fn, undefined, signal) : fn());
+    settled = { ok: true, result, error: null };
+  } catch (error) {
+    settled = {
+      ok: false,
+      result: null,
+      error: normalizeError(
+        error,
+        mapError,
+        typeof options === "object" ? options : undefined
+      ),
+    };
+  }
+
+  if (onFinally) {
+    settled = await finalizeAsync(
+      settled,
+      onFinally,
+      span ? { ...cleanupOptions, span } : cleanupOptions
+    );
+  }
+  const validate = typeof options === "object" ? options.validate : undefined;
+  const checked = validate ? validateResult(settled, validate) : settled;
+  return span ? endSpan(span, checked) : checked;
+}
+
+/**
+ * Lightweight retry mechanism
+ * Optimized for performance and memory efficiency
+ */
+export async function withRetry<T>(
+  fn: (signal: AbortSignal, context: AttemptContext) => Promise<T>,
+  maxRetries = 3,
+  delayMs = 1000,
+  options: WithRetryOptions<T> = {}
+): Promise<T> {
+  const { result, error } = await tryAndCatchWithRetry(fn, {
+    ...options,
+    maxRetries,
+    delay: delayMs,
+    shouldRetry: options.shouldRetry ?? retryAll,
+  });
+  if (error) throw error;
+  return result as T;
+}
+
+/**
+ * Advanced retry with full configuration (tree-shakeable)
+ * Only include if you need detailed retry control
+ */
+export async function tryAndCatchWithRetry<T, E = Error>(
+  fn: (signal: AbortSignal, context: AttemptContext<E>) => Promise<T>,
+  options: RetryOptions<E, T>
+): Promise<RetryResult<T, E>> {
+  const {
+    maxRetries,
+    delay = 1000,
+    shouldRetry = isNotFatal,
+    respectRetryAfter = true,
+    maxRetryAfterMs = 60000,
+    timeout,
+    mapError,
+    signal,
+    circuitBreaker,
+    bulkhead,
+    operation,
+    context: errorContext,
+    logger,
+    onRetry,
+    onGiveUp,
+    onSuccess,
+  } = options;
+  const clock = clockOf(options.clock);
+  const metrics = metricsOf(operation, options.metrics);
+  const tracer = tracerOf(operation, options.tracer);
+  const span = tracer?.startSpan(operation!, {
+    attributes: { "retry.max_retries": maxRetries },
+  });
+  const errors: E[] = [];
+  const history: AttemptRecord<E>[] = [];
+  const startTime = clock.now();
+
+  const giveUp = (lastError: E, attempts: number): RetryResult<T, E> => {
+    const error =
+      errorContext && !mapError
+        ? (describeError(lastError, {
+            operation,
+            context: { ...errorContext, attempts },
+          }) as unknown as E)
+        : lastError;
+    const totalTime = clock.now() - startTime;
+    metrics?.recordCall(operation!, false, totalTime, attempts);
+    span?.setAttribute("retry.attempts", attempts);
+    if (span) endSpan(span, failure(error));
+    callHook(onGiveUp, options, error, {
+      attempts,
+      elapsed: totalTime,
+      errors,
+    });
+    return {
+      ok: false,
+      result: null,
+      error,
+      attempts,
+      errors,
+      totalTime,
+      history,
+    };
+  };
+
+  if (signal?.aborted) {
+    return giveUp(normalizeError(new AbortError(), mapError), 0);
+  }
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    let release: (() => void) | undefined;
+    let permit: CircuitPermit | undefined;
+    let rejection: unknown;
+    try {
+      release = await bulkhead?.acquire(signal);
+      const admission = circuitBreaker?.acquire();
+      if (admission instanceof CircuitOpenError) rejection = admission;
+      else permit = admission;
+    } catch (error) {
+      rejection = error;
+    }
+    if (rejection) {
+      release?.();
+      return giveUp(normalizeError(rejection, mapError), attempt);
+    }
+
+    const startedAt = clock.now();
+    const context = {
+      attempt: attempt + 1,
+      previousError: errors.length ? errors[errors.length - 1] : null,
+      elapsed: startedAt - startTime,
+    };
+    const attemptSpan = tracer?.startSpan(`${operation} attempt`, {
+      parent: span,
+      attributes: { "retry.attempt": attempt + 1 },
+    });
+
+    let running: Promise<unknown> | undefined;
+    try {
+      const result = await runAttempt(
+        (attemptSignal) =>
+          (running = fn(attemptSignal, { ...context, signal: attemptSignal })),
+        timeout,
+        signal,
+        clock
+      ).finally(() => {
+        // A timed-out or aborted fn keeps its slot until it really settles
+        if (!release) return;
+        if (running) Promise.resolve(running).then(release, release);
+        else release();
+      });
+      circuitBreaker?.recordSuccess(permit);
+      history.push({
+        attempt: attempt + 1,
+        startedAt,
+        duration: clock.now() - startedAt,
+        error: null,
+      });
+
+      const totalTime = clock.now() - startTime;
+      metrics?.recordCall(operation!, true, totalTime, attempt + 1);
+      if (span) {
+        endSpan(attemptSpan!, success(result));
+        span.setAttribute("retry.attempts", attempt + 1);
+        endSpan(span, success(result));
+      }
+      callHook(onSuccess, options, result, {
+        attempts: attempt + 1,
+        elapsed: totalTime,
+      });
+      return {
+        ok: true,
+        result,
+        error: null,
+        attempts: attempt + 1,
+        errors,
+        totalTime,
+        history,
+      };
+    } catch (error) {
+      let err = normalizeError(error, mapError);
+      errors.push(err);
+      history.push({
+        attempt: attempt + 1,
+        startedAt,
+        duration: clock.now() - startedAt,
+        error: err,
+      });
+      circuitBreaker?.recordFailure(err, permit);
+      if (attemptSpan) endSpan(attemptSpan, failure(err));
+
+      const delayMs =
+        signal?.aborted || attempt >= maxRetries
+          ? null
+          : planRetry(err, attempt, {
+              delay,
+              shouldRetry,
+              context: {
+                attempt: attempt + 1,
+                elapsed: clock.now() - startTime,
+                errors,
+                retryAfterMs: respectRetryAfter
+                  ? getRetryAfter(err, maxRetryAfterMs, clock)
+                  : undefined,
+              },
+            });
+      if (delayMs !== null) {
+        log(
+          {
+            level: "debug",
+            phase: "retry",
+            message: `Attempt ${attempt + 1} failed, retrying in ${delayMs}ms`,
+            operation,
+            error: err,
+            attempt: attempt + 1,
+            delayMs,
+          },
+          logger
+        );
+        metrics?.recordRetry(operation!, delayMs);
+        span?.addEvent("retry", {
+          "retry.attempt": attempt + 1,
+          "retry.delay_ms": delayMs,
+        });
+        callHook(onRetry, options, err, {
+          attempt: attempt + 1,
+          nextDelayMs: delayMs,
+          elapsed: clock.now() - startTime,
+        });
+        try {
+          await sleep(delayMs, signal, clock);
+          continue;
+        } catch (abortError) {
+          err = normalizeError(abortError, mapError);
+        }
+      }
+
+      return giveUp(err, attempt + 1);
+    }
+  }
+
+  throw new Error("Retry logic error");
+}
+
+// Resolves the delay before the next attempt, or null to give up.
+// An explicit decision wins; otherwise the computed delay is stretched to
+// honour a Retry-After hint.
+function planRetry<E>(
+  error: E,
+  attempt: number,
+  plan: {
+    delay: NonNullable<RetryOptions<E>["delay"]>;
+    shouldRetry: NonNullable<RetryOptions<E>["shouldRetry"]>;
+    context: RetryContext<E>;
+  }
+): number | null {
+  const { delay, shouldRetry, context } = plan;
+  const verdict = shouldRetry(error, context);
+  if (verdict === false || (typeof verdict === "object" && !verdict.retry)) {
+    return null;
+  }
+  if (typeof verdict === "object" && verdict.delayMs !== undefined) {
+    return Math.max(0, verdict.delayMs);
+  }
+
+  const computed =
+    typeof delay === "function" ? delay(attempt, error, context) : delay;
+  if (typeof computed === "object") {
+    if (!computed.retry) return null;
+    if (computed.delayMs !== undefined) return Math.max(0, computed.delayMs);
+  }
+  const delayMs = typeof computed === "number" ? computed : 0;
+  return Math.max(0, delayMs, context.retryAfterMs ?? 0);
+}
+
+// Hooks are user code: a throwing hook is logged, never breaks the retry loop
+function callHook<A extends unknown[]>(
+  hook: ((...args: A) => void) | undefined,
+  options: { operation?: string; logger?: Logger },
+  ...args: A
+): void {
+  if (!hook) return;
+  try {
+    hook(...args);
+  } catch (error) {
+    log(
+      {
+        level: "warn",
+        phase: "retry",
+        message: "Retry hook failed:",
+        operation: options.operation,
+        error,
+      },
+      options.logger
+    );
+  }
+}
+
+// Retry-After hints (tree-shakeable) - read server back-off advice from errors
+
+type Bag = Record<string, unknown>;
+
+const asBag = (value: unknown): Bag | undefined =>
+  typeof value === "object" && value !== null ? (value as Bag) : undefined;
+
+// Header value: delta-seconds or an HTTP-date
+function parseRetryAfterHeader(
+  value: unknown,
+  now: number
+): number | undefined {
+  if (typeof value === "number") return value * 1000;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  if (/^\s*\d+(\.\d+)?\s*$/.test(value)) return Number(value) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : date - now;
+}
+
+// Fetch `Headers`, Node's lowercase header objects and plain records alike
+function readHeader(headers: unknown, name: string): unknown {
+  const bag = asBag(headers);
+  if (!bag) return undefined;
+  if (typeof bag.get === "function") {
+    const value = (bag.get as (key: string) => unknown)(name);
+    return Array.isArray(value) ? value[0] : value;
+  }
+  const key = Object.keys(bag).find((k) => k.toLowerCase() === name);
+  return key === undefined ? undefined : bag[key];
+}
+
+// google.rpc.RetryInfo's `retryDelay` ({ seconds, nanos })
+function parseDuration(value: unknown): number | undefined {
+  const duration = asBag(value);
+  if (!duration) return undefined;
+  const seconds = Number(duration.seconds ?? 0);
+  const nanos = Number(duration.nanos ?? 0);
+  const ms = seconds * 1000 + nanos / 1e6;
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
+function findRetryAfter(error: Bag, now: number): number | undefined {
+  if (typeof error.retryAfterMs === "number") return error.retryAfterMs;
+  // The breaker's own hint is already in milliseconds
+  if (error instanceof CircuitOpenError) return error.retryAfter;
+  const direct = parseRetryAfterHeader(error.retryAfter, now);
+  if (direct !== undefined) return direct;
+
+  for (const headers of [error.headers, asBag(error.response)?.headers]) {
+    const header = parseRetryAfterHeader(
+      readHeader(headers, "retry-after"),
+      now
+    );
+    if (header !== undefined) return header;
+  }
+
+  const pushback = readHeader(error.metadata, "grpc-retry-pushback-ms");
+  if (pushback !== undefined && !Number.isNaN(Number(pushback))) {
+    return Number(pushback);
+  }
+  const details = Array.isArray(error.details) ? error.details : [];
+  for (const info of [error, ...details]) {
+    const delay = parseDuration(asBag(info)?.retryDelay);
+    if (delay !== undefined) return delay;
+  }
+  return undefined;
+}
+
+// Milliseconds the error asks us to wait, clamped to [0, maxMs].
+// Looks at `retryAfterMs`, `retryAfter`, `Retry-After` headers (on the error
+// or its `response`), gRPC pushback metadata and RetryInfo, then `cause`.
+// HTTP-dates are measured against `clock` (default: the configured clock).
+export function getRetryAfter(
+  error: unknown,
+  maxMs = Infinity,
+  clock?: Clock
+): number | undefined {
+  const now = clockOf(clock).now();
+  let current = asBag(error);
+  for (let depth = 0; current && depth < 5; depth++) {
+    const ms = findRetryAfter(current, now);
+    if (ms !== undefined) return Math.min(Math.max(0, ms), maxMs);
+    current = asBag(current.cause);
+  }
+  return undefined;
+}
+
+// Error classification (tree-shakeable) - rules on class, code and status
+
+export type ErrorCategory =
+  | "network"
+  | "timeout"
+  | "rate-limited"
+  | "auth"
+  | "validation"
+  | "transient"
+  | "permanent";
+
+// A rule matches when every matcher it sets matches
+export interface ErrorRule {
+  category: ErrorCategory;
+  instanceOf?: ErrorClass;
+  name?: string | RegExp;
+  code?: string | string[];
+  // Read from `status`, `statusCode` or `response.status`
+  status?: number | number[] | ((status: number) => boolean);
+  message?: RegExp;
+  test?: (error: unknown) => boolean;
+}
+
+const statusOf = (error: Bag): number | undefined => {
+  const status =
+    error.status ?? error.statusCode ?? asBag(error.response)?.status;
+  return typeof status === "number" ? status : undefined;
+};
+
+const matchesText = (value: unknown, expected: string | RegExp) =>
+  typeof value === "string" &&
+  (typeof expected === "string" ? value === expected : expected.test(value));
+
+function matchesRule(error: Bag, rule: ErrorRule): boolean {
+  const { instanceOf, name, code, status, message, test } = rule;
+  if (instanceOf && !(error instanceof instanceOf)) return false;
+  if (name !== undefined && !matchesText(error.name, name)) return false;
+  if (code !== undefined) {
+    const codes = Array.isArray(code) ? code : [code];
+    if (!codes.includes(String(error.code))) return false;
+  }
+  if (status !== undefined) {
+    const actual = statusOf(error);
+    if (actual === undefined) return false;
+    const ok =
+      typeof status === "function"
+        ? status(actual)
+        : Array.isArray(status)
+        ? status.includes(actual)
+        : status === actual;
+    if (!ok) return false;
+  }
+  if (message && !matchesText(error.message, message)) return false;
+  return !test || test(error);
+}
+
+// Structured signals first; message patterns are the last resort
+const builtinErrorRules: ErrorRule[] = [
+  { category: "timeout", instanceOf: TimeoutError },
+  { category: "timeout", name: "TimeoutError" },
+  {
+    category: "timeout",
+    code: ["ETIMEDOUT", "ESOCKETTIMEDOUT", "UND_ERR_CONNECT_TIMEOUT"],
+  },
+  {
+    category: "network",
+    code: [
+      "ECONNRESET",
+      "ECONNREFUSED",
+      "ECONNABORTED",
+      "EHOSTUNREACH",
+      "ENETUNREACH",
+      "ENETDOWN",
+      "ENOTFOUND",
+      "EAI_AGAIN",
+      "EPIPE",
+      "UND_ERR_SOCKET",
+    ],
+  },
+  { category: "timeout", status: [408, 504] },
+  { category: "rate-limited", status: 429 },
+  { category: "auth", status: [401, 403] },
+  { category: "validation", status: [400, 422] },
+  { category: "transient", status: (s) => s >= 500 && s !== 501 },
+  { category: "permanent", status: (s) => s >= 400 },
+  { category: "validation", name: /ValidationError$/ },
+  { category: "rate-limited", message: /rate limit|too many requests/i },
+  { category: "timeout", message: /timed out|timeout/i },
+  {
+    category: "network",
+    message:
+      /\bnetwork\b|connection (failed|refused|reset|closed)|socket hang up|fetch failed|failed to fetch/i,
+  },
+];
+
+// Registered rules, newest first; they win over the built-ins
+let customErrorRules: ErrorRule[] = [];
+
+/**
+ * Adds a classification rule ahead of the built-ins.
+ * Returns a function that removes it again.
+ */
+export function registerErrorRule(rule: ErrorRule): () => void {
+  customErrorRules = [rule, ...customErrorRules];
+  return () => {
+    customErrorRules = customErrorRules.filter((r) => r !== rule);
+  };
+}
+
+// Category of the error, or of the nearest `cause` a rule recognises
+export function classifyError(error: unknown): ErrorCategory | undefined {
+  let current = asBag(error);
+  for (let depth = 0; current && depth < 5; depth++) {
+    for (const rule of [...customErrorRules, ...builtinErrorRules]) {
+      if (matchesRule(current, rule)) return rule.category;
+    }
+    current = asBag(current.cause);
+  }
+  return undefined;
+}
+
+const RETRYABLE_CATEGORIES = new Set<ErrorCategory | undefined>([
+  "network",
+  "timeout",
+  "rate-limited",
+  "transient",
+]);
+
+const FATAL_CATEGORIES = new Set<ErrorCategory | undefined>([
+  "auth",
+  "validation",
+  "permanent",
+]);
+
+// withRetry / SimpleRetry default: their callers never had classification
+const retryAll = () => true;
+
+// Default `shouldRetry`: unrecognised errors are retried, known-fatal ones not
+const isNotFatal = (error: unknown) =>
+  !FATAL_CATEGORIES.has(classifyError(error));
+
+// Tree-shakeable utilities - only bundled if imported
+export const ErrorTypes = {
+  isNetworkError: (error: unknown) => classifyError(error) === "network",
+  isTimeoutError: (error: unknown) => classifyError(error) === "timeout",
+  isRateLimited: (error: unknown) => classifyError(error) === "rate-limited",
+  // Only errors recognised as network, timeout, rate-limited or transient
+  isRetryable: (error: unknown) =>
+    RETRYABLE_CATEGORIES.has(classifyError(error)),
+};
+
+// Maps a 0-based retry index to a delay in ms (the shape `delay` accepts)
+export type DelayStrategy = (attempt: number) => number;
+
+// Returns a number in [0, 1), like Math.random
+export type RandomSource = () => number;
+
+// Deterministic random source (mulberry32) for reproducible jitter in tests
+export function seededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The first `count` delays a strategy produces, for tuning configs
+export function previewDelays(strategy: DelayStrategy, count: number) {
+  return Array.from({ length: count }, (_, attempt) => strategy(attempt));
+}
+
+const exponent = (baseMs: number, maxMs: number, attempt: number) =>
+  Math.min(baseMs * Math.pow(2, attempt), maxMs);
+
+export const RetryStrategies = {
+  // Exponential growth plus up to `baseMs` of jitter
+  exponentialBackoff:
+    (baseMs = 1000, maxMs = 30000, random: RandomSource = Math.random) =>
+    (attempt: number) =>
+      Math.min(baseMs * Math.pow(2, attempt) + random() * baseMs, maxMs),
+  linearBackoff:
+    (delayMs = 1000) =>
+    (attempt: number) =>
+      delayMs * (attempt + 1),
+  fixedDelay:
+    (delayMs = 1000) =>
+    () =>
+      delayMs,
+  // AWS "full jitter": random(0, exponential)
+  fullJitter:
+    (baseMs = 1000, maxMs = 30000, random: RandomSource = Math.random) =>
+    (attempt: number) =>
+      random() * exponent(baseMs, maxMs, attempt),
+  // AWS "equal jitter": half the exponential plus random(0, half)
+  equalJitter:
+    (baseMs = 1000, maxMs = 30000, random: RandomSource = Math.random) =>
+    (attempt: number) => {
+      const half = exponent(baseMs, maxMs, attempt) / 2;
+      return half + random() * half;
+    },
+  // AWS "decorrelated jitter": random(base, previous * 3), capped.
+  // Stateful - restarts at attempt 0, so use one per retry loop.
+  decorrelatedJitter: (
+    baseMs = 1000,
+    maxMs = 30000,
+    random: RandomSource = Math.random
+  ): DelayStrategy => {
+    let previous = baseMs;
+    return (attempt: number) => {
+      if (attempt === 0) previous = baseMs;
+      previous = Math.min(
+        maxMs,
+        baseMs + random() * (Math.max(previous * 3, baseMs) - baseMs)
+      );
+      return previous;
+    };
+  },
+  // base, base, 2*base, 3*base, 5*base, ...
+  fibonacciBackoff:
+    (baseMs = 1000, maxMs = 30000) =>
+    (attempt: number) => {
+      let [a, b] = [1, 1];
+      for (let i = 0; i < attempt && a * baseMs < maxMs; i++)
+        [a, b] = [b, a + b];
+      return Math.min(a * baseMs, maxMs);
+    },
+  // base * (attempt + 1) ^ degree
+  polynomialBackoff:
+    (baseMs = 1000, degree = 2, maxMs = 30000) =>
+    (attempt: number) =>
+      Math.min(baseMs * Math.pow(attempt + 1, degree), maxMs),
+  withCap: (strategy: DelayStrategy, maxMs: number) => (attempt: number) =>
+    Math.min(strategy(attempt), maxMs),
+  withMin: (strategy: DelayStrategy, minMs: number) => (attempt: number) =>
+    Math.max(strategy(attempt), minMs),
+};
+
+export const SimpleRetry = {
+  quick: async <T>(
+    fn: () => Promise<T>,
+    maxRetries = 3,
+    hooks?: WithRetryOptions<T>
+  ) => withRetry(fn, maxRetries, 1000, hooks),
+  network: async <T>(fn: () => Promise<T>, hooks?: WithRetryOptions<T>) =>
+    withRetry(fn, 3, 2000, hooks),
+  database: async <T>(fn: () => Promise<T>, hooks?: WithRetryOptions<T>) =>
+    withRetry(fn, 5, 3000, hooks),
+};
+
+// Function wrappers (tree-shakeable) - same parameters (and `this`), Result out
+export function safeify<This, A extends unknown[], R, E = Error>(
+  fn: (this: This, ...args: A) => R,
+  options?: Cleanup | TryAndCatchOptions<E>
+): (this: This, ...args: A) => ResultOf<R, E> {
+  return function (this: This, ...args: A) {
+    return tryAndCatch<R, E>(() => fn.apply(this, args), options);
+  };
+}
+
+export function safeifyAsync<This, A extends unknown[], T, E = Error>(
+  fn: (this: This, ...args: A) => Awaitable<T>,
+  options?: Cleanup | TryAndCatchAsyncOptions<E>
+): (this: This, ...args: A) => Promise<Result<T, E>> {
+  return function (this: This, ...args: A) {
+    return tryAndCatchAsync<T, E>(async () => fn.apply(this, args), options);
+  };
+}
+
+// Reusable retrying function: every call runs tryAndCatchWithRetry
+export function retryable<This, A extends unknown[], T, E = Error>(
+  fn: (this: This, ...args: A) => Promise<T>,
+  options: RetryOptions<E, T>
+): (this: This, ...args: A) => Promise<RetryResult<T, E>> {
+  return function (this: This, ...args: A) {
+    return tryAndCatchWithRetry(() => fn.apply(this, args), options);
+  };
+}
+
+// Method decorators (TC39 standard, TypeScript 5+). A decorator can't change
+// the method's type, so @Safe is for methods declared to return a Result:
+// anything they throw becomes a failure instead.
+type ResultReturn =
+  | Result<unknown, unknown>
+  | Promise<Result<unknown, unknown>>;
+
+export function Safe<This, A extends unknown[], R extends ResultReturn>(
+  method: (this: This, ...args: A) => R,
+  context: ClassMethodDecoratorContext<This, (this: This, ...args: A) => R>
+): (this: This, ...args: A) => R {
+  return function (this: This, ...args: A): R {
+    let returned: R;
+    try {
+      returned = method.apply(this, args);
+    } catch (error) {
+      return failure(toError(error)) as R;
+    }
+    return returned instanceof Promise
+      ? (returned.catch((error: unknown) => failure(toError(error))) as R)
+      : returned;
+  };
+}
+
+// Retries an async method; resolves with its value or rejects with the last error
+export function Retry<T>(options: RetryOptions<Error, T>) {
+  return function <This, A extends unknown[]>(
+    method: (this: This, ...args: A) => Promise<T>,
+    context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: A) => Promise<T>
+    >
+  ) {
+    return async function (this: This, ...args: A): Promise<T> {
+      const { result, error } = await tryAndCatchWithRetry(
+        () => method.apply(this, args),
+        { operation: String(context.name), ...options }
+      );
+      if (error) throw error;
+      return result as T;
+    };
+  };
+}
+
+// Rejects with a TimeoutError when an async method takes longer than `ms`
+export function Timeout(ms: number) {
+  return function <This, A extends unknown[], T>(
+    method: (this: This, ...args: A) => Promise<T>,
+    context: ClassMethodDecoratorContext<
+      This,
+      (this: This, ...args: A) => Promise<T>
+    >
+  ) {
+    return function (this: This, ...args: A): Promise<T> {
+      return runAttempt(() => method.apply(this, args), ms);
+    };
+  };
+}
+
+// Circuit breaker (tree-shakeable) - stops calling a dependency that is hard down
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions<E = Error> {
+  // Consecutive counted failures that open the circuit (default 5)
+  failureThreshold?: number;
+  // Failure rate (0-1) over the rolling window that opens the circuit
+  failureRateThreshold?: number;
+  // Calls required in the window before the failure rate is evaluated
+  minimumRequests?: number;
+  rollingWindowMs?: number;
+  // How long the circuit stays open before allowing probes
+  coolDownMs?: number;
+  // Concurrent probes allowed while half-open; that many successes close it
+  halfOpenMaxProbes?: number;
+  // Decides which failures count (e.g. ErrorTypes.isRetryable)
+  isFailure?: (error: E) => boolean;
+  mapError?: ErrorMapper<E>;
+  clock?: Clock;
+}
+
+export interface CircuitStateChange {
+  from: CircuitState;
+  to: CircuitState;
+  timestamp: number;
+}
+
+// Issued by CircuitBreaker.acquire; only outcomes of permits from the
+// breaker's current state period drive probes and transitions
+export interface CircuitPermit {
+  readonly generation: number;
+  readonly probe: boolean;
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  failureRate: number;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  nextAttemptAt: number | null;
+  halfOpenProbes: number;
+}
+
+// Returned (never thrown) when the breaker short-circuits a call
+export class CircuitOpenError extends Error {
+  constructor(public readonly retryAfter: number) {
+    super(`Circuit is open, retry after ${retryAfter}ms`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+// The rolling window is kept as a fixed number of buckets to bound memory
+const CIRCUIT_WINDOW_BUCKETS = 10;
+
+type CircuitBucket = { start: number; requests: number; failures: number };
+
+export class CircuitBreaker<E = Error> {
+  private readonly failureThreshold: number;
+  private readonly failureRateThreshold?: number;
+  private readonly minimumRequests: number;
+  private readonly rollingWindowMs: number;
+  private readonly coolDownMs: number;
+  private readonly halfOpenMaxProbes: number;
+  private readonly isFailure: (error: E) => boolean;
+  private readonly mapError?: ErrorMapper<E>;
+  private readonly clock?: Clock;
+
+  private state: CircuitState = "closed";
+  private buckets: CircuitBucket[] = [];
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  // Bumped on every transition, so late outcomes can be told apart
+  private generation = 0;
+  private listeners = new Set<(change: CircuitStateChange) => void>();
+
+  constructor(options: CircuitBreakerOptions<E> = {}) {
+    this.failureThreshold =
+      options.failureThreshold ??
+      (options.failureRateThreshold === undefined ? 5 : Infinity);
+    this.failureRateThreshold = options.failureRateThreshold;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.rollingWindowMs = options.rollingWindowMs ?? 60000;
+    this.coolDownMs = options.coolDownMs ?? 30000;
+    this.halfOpenMaxProbes = options.halfOpenMaxProbes ?? 1;
+    this.isFailure =
+      options.isFailure ?? ((error) => !(error instanceof AbortError));
+    this.mapError = options.mapError;
+    this.clock = options.clock;
+  }
+
+  /**
+   * Runs `fn` unless the circuit is open.
+   * Short-circuited calls resolve to a CircuitOpenError without calling `fn`.
+   */
+  async execute<T>(
+    fn: () => Promise<T>
+  ): Promise<Result<T, E | CircuitOpenError>> {
+    const permit = this.acquire();
+    if (permit instanceof CircuitOpenError) {
+      return failure(permit);
+    }
+
+    try {
+      const result = await fn();
+      this.recordSuccess(permit);
+      return success(result);
+    } catch (error) {
+      const err = normalizeError(error, this.mapError);
+      this.recordFailure(err, permit);
+      return failure(err);
+    }
+  }
+
+  /**
+   * Low-level permit check used by `tryAndCatchWithRetry`.
+   * Every granted permit must be settled with recordSuccess/recordFailure.
+   */
+  acquire(): CircuitOpenError | CircuitPermit {
+    this.refreshState();
+
+    if (this.state === "open") {
+      return new CircuitOpenError(this.remainingCoolDown());
+    }
+    if (this.state === "half-open") {
+      if (this.probesInFlight >= this.halfOpenMaxProbes) {
+        return new CircuitOpenError(0);
+      }
+      this.probesInFlight++;
+    }
+    return { generation: this.generation, probe: this.state === "half-open" };
+  }
+
+  // Outcomes of permits from an earlier state period only feed the window
+  recordSuccess(permit?: CircuitPermit): void {
+    this.record(false);
+    if (!this.isCurrent(permit)) return;
+    this.consecutiveFailures = 0;
+
+    if (this.state === "half-open") {
+      this.releaseProbe();
+      if (++this.probeSuccesses >= this.halfOpenMaxProbes) {
+        this.transition("closed");
+      }
+    }
+  }
+
+  recordFailure(error: E, permit?: CircuitPermit): void {
+    const current = this.isCurrent(permit);
+    if (!this.isFailure(error)) {
+      if (current && this.state === "half-open") this.releaseProbe();
+      return;
+    }
+
+    this.record(true);
+    if (!current) return;
+    this.consecutiveFailures++;
+
+    if (this.state === "half-open") {
+      this.releaseProbe();
+      this.transition("open");
+    } else if (this.state === "closed" && this.shouldTrip()) {
+      this.transition("open");
+    }
+  }
+
+  // Returns an unsubscribe function
+  onStateChange(listener: (change: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getState(): CircuitState {
+    this.refreshState();
+    return this.state;
+  }
+
+  // JSON-friendly view for health endpoints
+  snapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+    const { requests, failures } = this.windowTotals();
+    return {
+      state: this.state,
+      requests,
+      failures,
+      failureRate: requests ? failures / requests : 0,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt,
+      nextAttemptAt:
+        this.state === "open" ? this.openedAt! + this.coolDownMs : null,
+      halfOpenProbes: this.probesInFlight,
+    };
+  }
+
+  reset(): void {
+    this.buckets = [];
+    this.consecutiveFailures = 0;
+    this.transition("closed");
+  }
+
+  private refreshState(): void {
+    if (this.state === "open" && this.remainingCoolDown() === 0) {
+      this.transition("half-open");
+    }
+  }
+
+  private remainingCoolDown(): number {
+    return Math.max(
+      0,
+      this.openedAt! + this.coolDownMs - clockOf(this.clock).now()
+    );
+  }
+
+  // Without a permit (older callers) the outcome counts for the current state
+  private isCurrent(permit?: CircuitPermit): boolean {
+    return !permit || permit.generation === this.generation;
+  }
+
+  private releaseProbe(): void {
+    if (this.probesInFlight > 0) this.probesInFlight--;
+  }
+
+  private shouldTrip(): boolean {
+    if (this.consecutiveFailures >= this.failureThreshold) {
+      return true;
+    }
+    if (this.failureRateThreshold === undefined) {
+      return false;
+    }
+    const { requests, failures } = this.windowTotals();
+    return (
+      requests >= this.minimumRequests &&
+      failures / requests >= this.failureRateThreshold
+    );
+  }
+
+  private record(failed: boolean): void {
+    const now = clockOf(this.clock).now();
+    const bucketMs = this.rollingWindowMs / CIRCUIT_WINDOW_BUCKETS;
+    const start = now - (now % bucketMs);
+    let bucket = this.buckets[this.buckets.length - 1];
+
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, requests: 0, failures: 0 };
+      this.buckets.push(bucket);
+    }
+    bucket.requests++;
+    if (failed) bucket.failures++;
+
+    this.pruneBuckets(now);
+  }
+
+  private windowTotals(): { requests: number; failures: number } {
+    this.pruneBuckets(clockOf(this.clock).now());
+    let requests = 0;
+    let failures = 0;
+    for (const bucket of this.buckets) {
+      requests += bucket.requests;
+      failures += bucket.failures;
+    }
+    return { requests, failures };
+  }
+
+  private pruneBuckets(now: number): void {
+    const cutoff = now - this.rollingWindowMs;
+    while (this.buckets.length && this.buckets[0].start <= cutoff) {
+      this.buckets.shift();
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) return;
+
+    this.state = to;
+    this.generation++;
+    this.openedAt = to === "open" ? clockOf(this.clock).now() : null;
+    this.probesInFlight = 0;
+    this.probeSuccesses = 0;
+    if (to === "closed") this.consecutiveFailures = 0;
+
+    const change = { from, to, timestamp: clockOf(this.clock).now() };
+    this.listeners.forEach((listener) => listener(change));
+  }
+}
+
+// Concurrency primitives (tree-shakeable) - mutex, semaphore and bulkhead
+export interface RunOptions<E = Error> {
+  signal?: AbortSignal;
+  mapError?: ErrorMapper<E>;
+}
+
+type PermitWaiter = {
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+};
+
+export class Semaphore {
+  private permits: number;
+  private waiters: PermitWaiter[] = [];
+
+  constructor(permits: number) {
+    if (!(permits >= 1)) {
+      throw new RangeError("Semaphore needs at least one permit");
+    }
+    this.permits = permits;
+  }
+
+  get available(): number {
+    return this.permits;
+  }
+
+  get waiting(): number {
+    return this.waiters.length;
+  }
+
+  /**
+   * Resolves with a release function once a permit is free.
+   * Rejects with an AbortError if `signal` fires while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+    const release = this.tryAcquire();
+    if (release) {
+      return Promise.resolve(release);
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: PermitWaiter = {
+        resolve: (release) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(release);
+        },
+        reject,
+      };
+      const onAbort = () => {
+        this.removeWaiter(waiter);
+        reject(new AbortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+    });
+  }
+
+  tryAcquire(): (() => void) | null {
+    if (this.permits === 0) {
+      return null;
+    }
+    this.permits--;
+    return this.releaser();
+  }
+
+  // Runs `fn` while holding a permit; the permit is always released
+  async run<T, E = Error>(
+    fn: () => Promise<T>,
+    options: RunOptions<E> = {}
+  ): Promise<Result<T, E>> {
+    let release: () => void;
+    try {
+      release = await this.acquire(options.signal);
+    } catch (error) {
+      return failure(normalizeError(error, options.mapError));
+    }
+    return tryAndCatchAsync(fn, {
+      onFinally: release,
+      mapError: options.mapError,
+    });
+  }
+
+  private removeWaiter(waiter: PermitWaiter): void {
+    const index = this.waiters.indexOf(waiter);
+    if (index !== -1) this.waiters.splice(index, 1);
+  }
+
+  // Hands the permit straight to the next waiter; calling twice is a no-op
+  private releaser(): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const next = this.waiters.shift();
+      if (next) next.resolve(this.releaser());
+      else this.permits++;
+    };
+  }
+}
+
+export class Mutex extends Semaphore {
+  constructor() {
+    super(1);
+  }
+
+  get locked(): boolean {
+    return this.available === 0;
+  }
+}
+
+export interface BulkheadOptions {
+  maxConcurrent: number;
+  // Calls allowed to wait for a slot (default 0: reject immediately)
+  maxQueued?: number;
+  // Longest a queued call may wait before being rejected
+  queueTimeoutMs?: number;
+  clock?: Clock;
+}
+
+export interface BulkheadSnapshot {
+  active: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueued: number;
+}
+
+// Returned (never thrown) when the bulkhead refuses a call
+export class BulkheadRejectedError extends Error {
+  constructor(public readonly reason: "queue-full" | "queue-timeout") {
+    super(
+      reason === "queue-full"
+        ? "Bulkhead is full, call rejected"
+        : "Timed out waiting for a bulkhead slot"
+    );
+    this.name = "BulkheadRejectedError";
+  }
+}
+
+export class Bulkhead {
+  private readonly semaphore: Semaphore;
+  private readonly maxConcurrent: number;
+  private readonly maxQueued: number;
+  private readonly queueTimeoutMs?: number;
+  private readonly clock?: Clock;
+
+  constructor(options: BulkheadOptions) {
+    this.semaphore = new Semaphore(options.maxConcurrent);
+    this.maxConcurrent = options.maxConcurrent;
+    this.maxQueued = options.maxQueued ?? 0;
+    this.queueTimeoutMs = options.queueTimeoutMs;
+    this.clock = options.clock;
+  }
+
+  /**
+   * Resolves with a release function, or rejects with a BulkheadRejectedError
+   * (queue full / queue timeout) or an AbortError.
+   */
+  async acquire(signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      throw new AbortError();
+    }
+    const release = this.semaphore.tryAcquire();
+    if (release) {
+      return release;
+    }
+    if (this.semaphore.waiting >= this.maxQueued) {
+      throw new BulkheadRejectedError("queue-full");
+    }
+    if (!this.queueTimeoutMs) {
+      return this.semaphore.acquire(signal);
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort, { once: true });
+    const clock = clockOf(this.clock);
+    const timer = clock.setTimeout(
+      () => controller.abort(),
+      this.queueTimeoutMs
+    );
+
+    try {
+      return await this.semaphore.acquire(controller.signal);
+    } catch (error) {
+      throw signal?.aborted
+        ? error
+        : new BulkheadRejectedError("queue-timeout");
+    } finally {
+      clock.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  async run<T, E = Error>(
+    fn: () => Promise<T>,
+    options: RunOptions<E> = {}
+  ): Promise<Result<T, E | BulkheadRejectedError>> {
+    let release: () => void;
+    try {
+      release = await this.acquire(options.signal);
+    } catch (error) {
+      return failure(
+        error instanceof BulkheadRejectedError
+          ? error
+          : normalizeError(error, options.mapError)
+      );
+    }
+    return tryAndCatchAsync(fn, {
+      onFinally: release,
+      mapError: options.mapError,
+    });
+  }
+
+  snapshot(): BulkheadSnapshot {
+    return {
+      active: this.maxConcurrent - this.semaphore.available,
+      queued: this.semaphore.waiting,
+      maxConcurrent: this.maxConcurrent,
+      maxQueued: this.maxQueued,
+    };
+  }
+}
+
+// Singleflight (tree-shakeable) - concurrent callers for a key share one call
+export interface SingleFlightOptions<E = Error> {
+  // Callers that joined a failed call get its failure too (default true);
+  // when false they start one fresh shared call instead
+  shareFailures?: boolean;
+  // Keep a successful Result this long and hand it out without calling again
+  ttlMs?: number;
+  // Keys whose cached Result and stats are kept (default 1000); results
+  // closest to expiry and stats of the least recently used keys go first
+  maxKeys?: number;
+  mapError?: ErrorMapper<E>;
+  clock?: Clock;
+}
+
+export interface SingleFlightStats {
+  // Calls actually made
+  executions: number;
+  // Callers that joined a call already in flight
+  shared: number;
+  // Callers served from the `ttlMs` cache
+  cacheHits: number;
+  failures: number;
+  inFlight: boolean;
+}
+
+type FlightCounters = Omit<SingleFlightStats, "inFlight">;
+
+export class SingleFlight<E = Error> {
+  private flights = new Map<string, Promise<Result<unknown, E>>>();
+  private cache = new Map<
+    string,
+    { result: Success<unknown>; until: number }
+  >();
+  private counters = new Map<string, FlightCounters>();
+
+  constructor(private readonly options: SingleFlightOptions<E> = {}) {}
+
+  run<T>(key: string, fn: () => Awaitable<T>): Promise<Result<T, E>> {
+    return this.join(key, fn, this.options.shareFailures ?? true) as Promise<
+      Result<T, E>
+    >;
+  }
+
+  stats(key: string): SingleFlightStats {
+    const counters = this.counters.get(key) ?? {
+      executions: 0,
+      shared: 0,
+      cacheHits: 0,
+      failures: 0,
+    };
+    return { ...counters, inFlight: this.flights.has(key) };
+  }
+
+  // Drops the cached Result and stats; an in-flight call still completes
+  // for the callers already waiting, but is neither cached nor joined again
+  forget(key: string): void {
+    this.flights.delete(key);
+    this.cache.delete(key);
+    this.counters.delete(key);
+  }
+
+  private async join(
+    key: string,
+    fn: () => unknown,
+    shareFailures: boolean
+  ): Promise<Result<unknown, E>> {
+    const counters = this.countersFor(key);
+    const clock = clockOf(this.options.clock);
+    this.pruneExpired(clock.now());
+    const cached = this.cache.get(key);
+    if (cached && cached.until > clock.now()) {
+      counters.cacheHits++;
+      return cached.result;
+    }
+    this.cache.delete(key);
+
+    const flight = this.flights.get(key);
+    if (flight) {
+      counters.shared++;
+      const result = await flight;
+      return result.ok || shareFailures ? result : this.join(key, fn, true);
+    }
+
+    counters.executions++;
+    const pending: Promise<Result<unknown, E>> = tryAndCatchAsync(
+      async () => fn(),
+      { mapError: this.options.mapError }
+    ).then((result) => {
+      // Forgotten while in flight: callers get it, the cache doesn't
+      if (this.flights.get(key) !== pending) return result;
+      // Settle bookkeeping before any caller sees the Result
+      this.flights.delete(key);
+      if (!result.ok) this.countersFor(key).failures++;
+      else if (this.options.ttlMs) {
+        this.cache.delete(key);
+        this.cache.set(key, {
+          result,
+          until: clock.now() + this.options.ttlMs,
+        });
+        if (this.cache.size > this.maxKeys) {
+          this.cache.delete(this.cache.keys().next().value!);
+        }
+      }
+      return result;
+    });
+    this.flights.set(key, pending);
+    return pending;
+  }
+
+  private get maxKeys(): number {
+    return this.options.maxKeys ?? 1000;
+  }
+
+  // Entries share one ttl, so insertion order is expiry order
+  private pruneExpired(now: number): void {
+    for (const [key, entry] of this.cache) {
+      if (entry.until > now) return;
+      this.cache.delete(key);
+    }
+  }
+
+  // Re-inserted on every use so the oldest key is the least recently used
+  private countersFor(key: string): FlightCounters {
+    const counters = this.counters.get(key) ?? {
+      executions: 0,
+      shared: 0,
+      cacheHits: 0,
+      failures: 0,
+    };
+    this.counters.delete(key);
+    this.counters.set(key, counters);
+    if (this.counters.size > this.maxKeys) {
+      this.counters.delete(this.counters.keys().next().value!);
+    }
+    return counters;
+  }
+}
+
+/**
+ * Wraps `fn` so concurrent calls with the same key (default: the JSON of
+ * the arguments) share one execution; `flight` exposes the stats.
+ */
+export function dedupe<A extends unknown[], T, E = Error>(
+  fn: (...args: A) => Awaitable<T>,
+  options: SingleFlightOptions<E> & { key?: (...args: A) => string } = {}
+): ((...args: A) => Promise<Result<T, E>>) & { flight: SingleFlight<E> } {
+  const { key = (...args: A) => JSON.stringify(args), ...flightOptions } =
+    options;
+  const flight = new SingleFlight<E>(flightOptions);
+  return Object.assign(
+    (...args: A) => flight.run(key(...args), () => fn(...args)),
+    { flight }
+  );
+}
+
+// Result cache (tree-shakeable) - TTL + LRU, stale-if-error, stale-while-revalidate
+export interface CacheOptions<A extends unknown[], E = Error> {
+  // How long a successful value is fresh
+  ttlMs: number;
+  // LRU bound on stored values (default 1000)
+  maxEntries?: number;
+  // After expiry, how long a failed refresh may fall back to the old value
+  staleIfErrorMs?: number;
+  // After expiry, how long the old value is served while refreshing in the
+  // background
+  staleWhileRevalidateMs?: number;
+  // Default: JSON of the arguments
+  key?: (...args: A) => string;
+  mapError?: ErrorMapper<E>;
+  clock?: Clock;
+}
+
+// `stale: true` with an error is a failed refresh served from the cache;
+// `stale: true` without one is an expired value being revalidated
+export type CachedResult<T, E = Error> =
+  | (Success<T> & { stale: boolean })
+  | (Failure<E> & { stale: false })
+  | { ok: false; result: T; error: E; stale: true; cleanupError?: Error };
+
+export type CachedFunction<A extends unknown[], T, E = Error> = ((
+  ...args: A
+) => Promise<CachedResult<T, E>>) & {
+  invalidate(...args: A): void;
+  clear(): void;
+  readonly size: number;
+};
+
+/**
+ * Memoises successful Results of `fn` per key. Failures are never stored,
+ * and concurrent misses for a key share one call.
+ */
+export function cached<A extends unknown[], T, E = Error>(
+  fn: (...args: A) => Awaitable<T>,
+  options: CacheOptions<A, E>
+): CachedFunction<A, T, E> {
+  const {
+    ttlMs,
+    maxEntries = 1000,
+    staleIfErrorMs = 0,
+    staleWhileRevalidateMs = 0,
+    key = (...args: A) => JSON.stringify(args),
+    mapError,
+  } = options;
+  const store = new Map<string, { value: T; storedAt: number }>();
+  const loading = new Map<string, Promise<Result<T, E>>>();
+  const clock = () => clockOf(options.clock);
+
+  const load = (id: string, args: A) => {
+    const inFlight = loading.get(id);
+    if (inFlight) return inFlight;
+
+    const pending: Promise<Result<T, E>> = tryAndCatchAsync(
+      async () => fn(...args),
+      { mapError }
+    ).then((result) => {
+      // Invalidated while loading: callers still get it, the store doesn't
+      if (loading.get(id) !== pending) return result;
+      loading.delete(id);
+      if (result.ok) {
+        store.delete(id);
+        store.set(id, { value: result.result, storedAt: clock().now() });
+        if (store.size > maxEntries) {
+          store.delete(store.keys().next().value as string);
+        }
+      }
+      return result;
+    });
+    loading.set(id, pending);
+    return pending;
+  };
+
+  const call = async (...args: A): Promise<CachedResult<T, E>> => {
+    const id = key(...args);
+    const entry = store.get(id);
+    const age = entry ? clock().now() - entry.storedAt : Infinity;
+    if (entry) {
+      // Most recently used entries live at the end of the Map
+      store.delete(id);
+      if (age < ttlMs + Math.max(staleIfErrorMs, staleWhileRevalidateMs)) {
+        store.set(id, entry);
+      }
+    }
+
+    if (entry && age < ttlMs) {
+      return { ...success(entry.value), stale: false };
+    }
+    if (entry && age < ttlMs + staleWhileRevalidateMs) {
+      load(id, args);
+      return { ...success(entry.value), stale: true };
+    }
+
+    const result = await load(id, args);
+    if (result.ok) return { ...result, stale: false };
+    if (entry && age < ttlMs + staleIfErrorMs) {
+      return {
+        ok: false,
+        result: entry.value,
+        error: result.error,
+        stale: true,
+      };
+    }
+    return { ...result, stale: false };
+  };
+
+  return Object.defineProperties(call, {
+    invalidate: {
+      value: (...args: A) => {
+        const id = key(...args);
+        loading.delete(id);
+        return store.delete(id);
+      },
+    },
+    clear: {
+      value: () => {
+        loading.clear();
+        store.clear();
+      },
+    },
+    size: { get: () => store.size },
+  }) as CachedFunction<A, T, E>;
+}
+
+// Resource brackets (tree-shakeable) - release only what was acquired
+export type ResourcePhase = "acquire" | "use" | "release";
+
+// Acquire function, or acquire/release pair. Without `release`, values
+// exposing Symbol.asyncDispose / Symbol.dispose are disposed automatically.
+export type ResourceSpec<R> =
+  | (() => Awaitable<R>)
+  | { acquire: () => Awaitable<R>; release?(resource: R): Awaitable<void> };
+
+type Acquired<S> = S extends { acquire: () => infer R }
+  ? Awaited<R>
+  : S extends () => infer R
+  ? Awaited<R>
+  : never;
+
+export type AcquiredResources<S> = { -readonly [K in keyof S]: Acquired<S[K]> };
+
+// Says which phase failed; release failures after another failure are kept too
+export class ResourceError extends Error {
+  declare readonly cause: Error;
+
+  constructor(
+    public readonly phase: ResourcePhase,
+    cause: Error,
+    public readonly releaseErrors: Error[] = [],
+    // Position of the resource that failed to acquire
+    public readonly index?: number
+  ) {
+    super(`Resource ${phase} failed: ${cause.message}`);
+    this.name = "ResourceError";
+    assignCause(this, { cause });
+  }
+}
+
+const disposeSymbol: symbol =
+  (Symbol as { dispose?: symbol }).dispose ?? Symbol.for("Symbol.dispose");
+const asyncDisposeSymbol: symbol =
+  (Symbol as { asyncDispose?: symbol }).asyncDispose ??
+  Symbol.for("Symbol.asyncDispose");
+
+type Releaser = () => Awaitable<void>;
+
+function releaserFor(
+  spec: ResourceSpec<unknown>,
+  resource: unknown
+): Releaser | undefined {
+  if (typeof spec === "object" && spec.release) {
+    return () => spec.release!(resource);
+  }
+  if (typeof resource !== "object" && typeof resource !== "function") {
+    return undefined;
+  }
+  const disposable = resource as Record<symbol, unknown> | null;
+  const dispose =
+    disposable?.[asyncDisposeSymbol] ?? disposable?.[disposeSymbol];
+  return typeof dispose === "function"
+    ? () => dispose.call(resource)
+    : undefined;
+}
+
+async function releaseAll(releasers: Releaser[]): Promise<Error[]> {
+  const errors: Error[] = [];
+  for (let i = releasers.length - 1; i >= 0; i--) {
+    try {
+      await releasers[i]();
+    } catch (error) {
+      errors.push(toError(error));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Acquires every resource in order, runs `use`, then releases in reverse
+ * order. A resource that failed to acquire is never released.
+ */
+export async function withResource<
+  S extends readonly ResourceSpec<unknown>[] | [],
+  T
+>(
+  resources: S,
+  use: (resources: AcquiredResources<S>) => Awaitable<T>
+): Promise<Result<T, ResourceError>> {
+  const acquired: unknown[] = [];
+  const releasers: Releaser[] = [];
+
+  for (let index = 0; index < resources.length; index++) {
+    const spec = resources[index];
+    try {
+      const resource = await (typeof spec === "function"
+        ? spec()
+        : spec.acquire());
+      acquired.push(resource);
+      const release = releaserFor(spec, resource);
+      if (release) releasers.push(release);
+    } catch (error) {
+      const releaseErrors = await releaseAll(releasers);
+      return failure(
+        new ResourceError("acquire", toError(error), releaseErrors, index)
+      );
+    }
+  }
+
+  let settled: Result<T, Error>;
+  try {
+    settled = success(await use(acquired as AcquiredResources<S>));
+  } catch (error) {
+    settled = failure(toError(error));
+  }
+
+  const releaseErrors = await releaseAll(releasers);
+  if (!settled.ok) {
+    return failure(new ResourceError("use", settled.error, releaseErrors));
+  }
+  if (releaseErrors.length) {
+    const cause =
+      releaseErrors.length === 1
+        ? releaseErrors[0]
+        : new AggregateError(
+            releaseErrors,
+            `${releaseErrors.length} releases failed`
+          );
+    return failure(new ResourceError("release", cause, releaseErrors));
+  }
+  return settled;
+}
+
+/**
+ * Single-resource bracket: `release` runs only if `acquire` succeeded
+ */
+export function acquireUseRelease<R, T>(
+  acquire: () => Awaitable<R>,
+  use: (resource: R) => Awaitable<T>,
+  release?: (resource: R) => Awaitable<void>
+): Promise<Result<T, ResourceError>> {
+  return withResource([{ acquire, release }], ([resource]) => use(resource));
+}
+
+// Aggregate helpers (tree-shakeable) - fan out many thunks with bounded concurrency
+export type Thunk<T> = (signal: AbortSignal) => Awaitable<T>;
+
+type ThunkOutput<F> = F extends (...args: never[]) => infer V
+  ? Awaited<V>
+  : never;
+
+export type ThunkList =
+  | readonly Thunk<unknown>[]
+  | []
+  | { readonly [key: string]: Thunk<unknown> };
+
+export type ThunkValues<R> = { -readonly [K in keyof R]: ThunkOutput<R[K]> };
+
+export type ThunkResults<R> = {
+  -readonly [K in keyof R]: Result<ThunkOutput<R[K]>>;
+};
+
+type AnyThunkValue<R> = R extends readonly (infer F)[]
+  ? ThunkOutput<F>
+  : ThunkOutput<R[keyof R]>;
+
+export interface AggregateOptions {
+  // Maximum thunks running at once (default: all of them)
+  concurrency?: number;
+  // allResults only: stop launching and abort in-flight thunks on first failure
+  failFast?: boolean;
+  signal?: AbortSignal;
+}
+
+/**
+ * Shared pool runner. Each thunk goes through tryAndCatchAsync, so non-Error
+ * throws are normalised exactly like tryAndCatch. Returns as soon as `stopWhen`
+ * matches (aborting the rest); unfinished slots stay undefined.
+ */
+async function settleThunks(
+  thunks: Thunk<unknown>[],
+  options: AggregateOptions,
+  stopWhen?: (result: Result<unknown>) => boolean
+): Promise<(Result<unknown> | undefined)[]> {
+  const { concurrency = thunks.length, signal } = options;
+  const results: (Result<unknown> | undefined)[] = new Array(thunks.length);
+  const controller = new AbortController();
+  let next = 0;
+  let stop!: () => void;
+  const stopped = new Promise<void>((resolve) => (stop = resolve));
+
+  const halt = () => {
+    next = thunks.length;
+    controller.abort();
+    stop();
+  };
+  if (signal?.aborted) return results;
+  signal?.addEventListener("abort", halt, { once: true });
+
+  const worker = async () => {
+    while (next < thunks.length) {
+      const index = next++;
+      const result = await tryAndCatchAsync(async () =>
+        thunks[index](controller.signal)
+      );
+      if (controller.signal.aborted) return;
+      results[index] = result;
+      if (stopWhen?.(result)) halt();
+    }
+  };
+
+  const workers = Math.max(1, Math.min(concurrency, thunks.length));
+  try {
+    await Promise.race([
+      Promise.all(Array.from({ length: workers }, worker)),
+      stopped,
+    ]);
+  } finally {
+    signal?.removeEventListener("abort", halt);
+  }
+  return results;
+}
+
+// Runs array or record thunks and maps the settled slots back to the same shape
+async function settleShape<R extends ThunkList, U>(
+  thunks: R,
+  options: AggregateOptions,
+  stopWhen: ((result: Result<unknown>) => boolean) | undefined,
+  finish: (results: (Result<unknown> | undefined)[], keys: string[]) => U
+): Promise<U> {
+  const keys = Array.isArray(thunks) ? [] : Object.keys(thunks);
+  const list: Thunk<unknown>[] = Array.isArray(thunks)
+    ? thunks
+    : keys.map((key) => (thunks as Record<string, Thunk<unknown>>)[key]);
+  return finish(await settleThunks(list, options, stopWhen), keys);
+}
+
+function reshape<R>(thunks: ThunkList, values: unknown[], keys: string[]): R {
+  if (Array.isArray(thunks)) return values as unknown as R;
+  const record: Record<string, unknown> = {};
+  keys.forEach((key, index) => (record[key] = values[index]));
+  return record as R;
+}
+
+function aggregateOf(failures: Error[], total: number): AggregateError {
+  return new AggregateError(
+    failures,
+    `${failures.length} of ${total} operations failed`
+  );
 }
 
 /**
- * High-performance error handling with minimal overhead
- *
- * OPTIMIZATIONS:
- * - Removed complex error processing (50% performance improvement)
- * - Simplified cleanup handling (reduced memory usage)
- * - Streamlined async detection (faster execution)
- * - Minimal error object creation (reduced GC pressure)
+ * Succeeds with every value (tuple or record, matching the input) or fails
+ * with an AggregateError listing every failure.
  */
-export function tryAndCatch<T>(fn: () => T): Result<T>;
-export function tryAndCatch<T>(fn: () => Promise<T>): Promise<Result<T>>;
-export function tryAndCatch<T>(fn: () => T, onFinally: () => void): Result<T>;
-export function tryAndCatch<T>(
-  fn: () => Promise<T>,
-  onFinally: () => void | Promise<void>
-): Promise<Result<T>>;
-export function tryAndCatch<T>(
-  fn: () => T | Promise<T>,
-  onFinally?: () => void | Promise<void>
-): Result<T> | Promise<Result<T>> {
-  try {
-    const result = fn();
+export function allResults<R extends ThunkList>(
+  thunks: R,
+  options: AggregateOptions = {}
+): Promise<Result<ThunkValues<R>, AggregateError>> {
+  const stopWhen = options.failFast
+    ? (result: Result<unknown>) => !result.ok
+    : undefined;
 
-    if (result instanceof Promise) {
-      return result
-        .then((result) => ({ result, error: null }))
-        .catch((error) => ({
-          result: null,
-          error: error instanceof Error ? error : new Error(String(error)),
-        }))
-        .finally(async () => {
-          if (onFinally) {
-            try {
-              await onFinally();
-            } catch (e) {
-              console.warn("Cleanup failed:", e);
-            }
-          }
-        });
+  return settleShape(thunks, options, stopWhen, (results, keys) => {
+    const failures: Error[] = [];
+    let complete = true;
+    for (const result of results) {
+      if (!result) complete = false;
+      else if (!result.ok) failures.push(result.error);
+    }
+    if (!complete && !failures.length) {
+      failures.push(new AbortError());
     }
+    if (failures.length) {
+      return failure(aggregateOf(failures, results.length));
+    }
+    const values = results.map((result) => result!.result);
+    return success(reshape<ThunkValues<R>>(thunks, values, keys));
+  });
+}
 
-    // Sync path - optimized cleanup
-    if (onFinally) {
-      try {
-        onFinally();
-      } catch (e) {
-        console.warn("Cleanup failed:", e);
+/**
+ * Never fails: one Result per thunk, in the same tuple or record shape.
+ * Thunks cancelled through `signal` before settling report an AbortError.
+ */
+export function allSettledResults<R extends ThunkList>(
+  thunks: R,
+  options: Omit<AggregateOptions, "failFast"> = {}
+): Promise<ThunkResults<R>> {
+  return settleShape(thunks, options, undefined, (results, keys) =>
+    reshape<ThunkResults<R>>(
+      thunks,
+      Array.from(results, (result) => result ?? failure(new AbortError())),
+      keys
+    )
+  );
+}
+
+/**
+ * First success wins (the others are aborted); fails with an AggregateError
+ * only when every thunk failed.
+ */
+export function anyResult<R extends ThunkList>(
+  thunks: R,
+  options: Omit<AggregateOptions, "failFast"> = {}
+): Promise<Result<AnyThunkValue<R>, AggregateError>> {
+  return settleShape(
+    thunks,
+    options,
+    (result) => result.ok,
+    (results) => {
+      const failures: Error[] = [];
+      for (const result of results) {
+        if (result?.ok) return success(result.result as AnyThunkValue<R>);
+        failures.push(result ? result.error : new AbortError());
       }
+      return failure(aggregateOf(failures, results.length));
     }
+  );
+}
 
-    return { result, error: null };
-  } catch (error) {
-    // Fast error handling - no context processing overhead
-    const finalError =
-      error instanceof Error ? error : new Error(String(error));
-
-    if (onFinally) {
-      try {
-        onFinally();
-      } catch (e) {
-        console.warn("Cleanup failed:", e);
+export type Partitioned<R> = R extends readonly unknown[]
+  ? { successes: AnyThunkValue<R>[]; failures: Error[] }
+  : {
+      successes: Partial<ThunkValues<R>>;
+      failures: Partial<Record<keyof R, Error>>;
+    };
+
+/**
+ * Runs every thunk and splits the outcomes: arrays keep input order,
+ * records keep their keys.
+ */
+export function partitionResults<R extends ThunkList>(
+  thunks: R,
+  options: Omit<AggregateOptions, "failFast"> = {}
+): Promise<Partitioned<R>> {
+  return settleShape(thunks, options, undefined, (results, keys) => {
+    const settled = Array.from(
+      results,
+      (result) => result ?? failure(new AbortError())
+    );
+    if (Array.isArray(thunks)) {
+      const successes: unknown[] = [];
+      const failures: Error[] = [];
+      for (const result of settled) {
+        if (result.ok) successes.push(result.result);
+        else failures.push(result.error);
       }
+      return { successes, failures } as Partitioned<R>;
     }
 
-    return { result: null, error: finalError };
+    const successes: Record<string, unknown> = {};
+    const failures: Record<string, Error> = {};
+    settled.forEach((result, index) => {
+      if (result.ok) successes[keys[index]] = result.result;
+      else failures[keys[index]] = result.error;
+    });
+    return { successes, failures } as Partitioned<R>;
+  });
+}
+
+// Fallback chains (tree-shakeable) - try alternatives in order until one works
+
+// A bare thunk, or one with its own name and retry/timeout options
+// (steps don't retry unless they set `maxRetries`)
+export type FallbackStep<T> =
+  | Thunk<T>
+  | (Partial<Omit<RetryOptions<Error, T>, "signal" | "mapError">> & {
+      name?: string;
+      run: (signal: AbortSignal, context: AttemptContext) => Awaitable<T>;
+    });
+
+export type FallbackResult<T> = Result<T, AggregateError> & {
+  // Name (or index) of the step that produced the value; null if all failed
+  source: string | number | null;
+  // Final error of every step that failed, in order
+  errors: Error[];
+};
+
+export interface FallbackOptions {
+  signal?: AbortSignal;
+  clock?: Clock;
+  // Names the chain for metrics: outcome, latency and fallback sources used
+  operation?: string;
+  metrics?: MetricsRegistry;
+}
+
+async function runChain<T>(
+  steps: FallbackStep<T>[],
+  sources: (string | number)[],
+  options: FallbackOptions
+): Promise<FallbackResult<T>> {
+  const { signal, clock, operation } = options;
+  const metrics = metricsOf(operation, options.metrics);
+  const startTime = clockOf(clock).now();
+  const errors: Error[] = [];
+  const finish = (result: FallbackResult<T>, stepsRun: number) => {
+    const duration = clockOf(clock).now() - startTime;
+    metrics?.recordCall(operation!, result.ok, duration, stepsRun);
+    return result;
+  };
+
+  let stepsRun = 0;
+  for (let index = 0; index < steps.length; index++) {
+    // Aborted before this step could start: record the abort itself
+    if (signal?.aborted) {
+      errors.push(new AbortError());
+      break;
+    }
+    const step = steps[index];
+    const { run, ...retry } = typeof step === "function" ? { run: step } : step;
+    if (index > 0) metrics?.recordFallback(operation!, sources[index]);
+    const outcome = await tryAndCatchWithRetry(
+      async (stepSignal, context) => run(stepSignal, context),
+      {
+        clock,
+        metrics: options.metrics,
+        ...retry,
+        maxRetries: retry.maxRetries ?? 0,
+        signal,
+      }
+    );
+    if (outcome.ok) {
+      const source = sources[index];
+      return finish({ ...success(outcome.result), source, errors }, index + 1);
+    }
+    errors.push(outcome.error);
+    stepsRun++;
+    // The step already reported the abort; don't add a second one
+    if (outcome.error instanceof AbortError) break;
   }
+
+  return finish(
+    {
+      ...failure(
+        new AggregateError(errors, `All ${steps.length} fallbacks failed`)
+      ),
+      source: null,
+      errors,
+    },
+    stepsRun
+  );
 }
 
 /**
- * RECOMMENDED: Main entry point for most use cases
- * Improves API discoverability and reduces confusion
+ * Runs each step in order and returns the first success, annotated with
+ * the winning `source`. Fails with an AggregateError of every step's error.
  */
-export const safe = tryAndCatch;
+export function tryEach<T>(
+  steps: FallbackStep<T>[],
+  options: FallbackOptions = {}
+): Promise<FallbackResult<T>> {
+  const sources = steps.map((step, index) =>
+    typeof step === "function" ? index : step.name ?? index
+  );
+  return runChain(steps, sources, options);
+}
 
 /**
- * Explicitly async version - eliminates linter warnings
- * Use this when you know your function is async
+ * Runs `primary`, and on failure `fallback` with the primary's error.
+ * `source` is the primary step's name (default "primary") or "fallback".
  */
-export async function tryAndCatchAsync<T>(
-  fn: () => Promise<T>,
-  onFinally?: () => void | Promise<void>
-): Promise<Result<T>> {
-  try {
-    const result = await fn();
-    return { result, error: null };
-  } catch (error) {
-    return {
-      result: null,
-      error: error instanceof Error ? error : new Error(String(error)),
-    };
-  } finally {
-    if (onFinally) {
-      try {
-        await onFinally();
-      } catch (e) {
-        console.warn("Cleanup failed:", e);
-      }
-    }
+export function withFallback<T>(
+  primary: FallbackStep<T>,
+  fallback: (error: Error, signal: AbortSignal) => Awaitable<T>,
+  options: FallbackOptions = {}
+): Promise<FallbackResult<T>> {
+  let primaryError: Error | undefined;
+  const first: FallbackStep<T> =
+    typeof primary === "function" ? { run: primary } : primary;
+  const steps: FallbackStep<T>[] = [
+    {
+      ...first,
+      onGiveUp: (error, info) => {
+        primaryError = error;
+        first.onGiveUp?.(error, info);
+      },
+    },
+    (signal) => fallback(primaryError!, signal),
+  ];
+  return runChain(steps, [first.name ?? "primary", "fallback"], options);
+}
+
+// Hedged requests (tree-shakeable) - race a slow call against late duplicates
+
+/**
+ * Rolling window of recent latencies, used to derive hedge delays
+ * from observed percentiles
+ */
+export class LatencyTracker {
+  private samples: number[] = [];
+
+  constructor(private readonly size = 100) {}
+
+  record(ms: number): void {
+    this.samples.push(ms);
+    if (this.samples.length > this.size) this.samples.shift();
+  }
+
+  get count(): number {
+    return this.samples.length;
+  }
+
+  // Nearest-rank percentile (0-100); undefined until a sample exists
+  percentile(p: number): number | undefined {
+    if (!this.samples.length) return undefined;
+    const sorted = [...this.samples].sort((a, b) => a - b);
+    const rank = Math.ceil((p / 100) * sorted.length);
+    return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
   }
 }
 
+export interface HedgeOptions {
+  // Wait before each extra attempt (used until `latency` has samples)
+  delay: number;
+  // Extra attempts allowed after the first (default 1)
+  maxHedges?: number;
+  // Successful latencies are recorded here; when it has samples the hedge
+  // delay becomes its `percentile` (default 95)
+  latency?: LatencyTracker;
+  percentile?: number;
+  signal?: AbortSignal;
+  clock?: Clock;
+}
+
+export type HedgeResult<T> = Result<T, AggregateError> & {
+  // Extra attempts that were started
+  hedges: number;
+  // Attempt that produced the value (0 = the original); null if all failed
+  winner: number | null;
+  errors: Error[];
+};
+
 /**
- * Lightweight retry mechanism
- * Optimized for performance and memory efficiency
+ * Starts `fn`, and another copy whenever `delay` passes without a result
+ * or an attempt fails, up to `maxHedges` extra copies. The first success
+ * wins and every other attempt is aborted.
  */
-export async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3,
-  delayMs = 1000
-): Promise<T> {
-  let lastError: Error;
+export function hedge<T>(
+  fn: (signal: AbortSignal, attempt: number) => Awaitable<T>,
+  options: HedgeOptions
+): Promise<HedgeResult<T>> {
+  const { maxHedges = 1, latency, percentile = 95, signal } = options;
+  const clock = clockOf(options.clock);
+  const delayMs = latency?.percentile(percentile) ?? options.delay;
+  const controllers: AbortController[] = [];
+  const errors: Error[] = [];
+  let timer: TimerHandle | undefined;
+  let done = false;
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      if (attempt < maxRetries) {
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
-      }
+  return new Promise((resolve) => {
+    const finish = (
+      result: Result<T, AggregateError>,
+      winner: number | null
+    ) => {
+      done = true;
+      if (timer !== undefined) clock.clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      controllers.forEach((controller) => controller.abort());
+      const hedges = Math.max(0, controllers.length - 1);
+      resolve({ ...result, hedges, winner, errors });
+    };
+    const fail = () =>
+      finish(
+        failure(
+          new AggregateError(
+            errors,
+            `All ${controllers.length} hedged attempts failed`
+          )
+        ),
+        null
+      );
+    const onAbort = () => {
+      errors.push(new AbortError());
+      fail();
+    };
+
+    const launch = () => {
+      if (done) return;
+      const attempt = controllers.length;
+      const controller = new AbortController();
+      controllers.push(controller);
+      if (timer !== undefined) clock.clearTimeout(timer);
+      timer =
+        attempt < maxHedges ? clock.setTimeout(launch, delayMs) : undefined;
+
+      const startedAt = clock.now();
+      tryAndCatchAsync(async () => fn(controller.signal, attempt)).then(
+        (result) => {
+          if (done) return;
+          if (result.ok) {
+            latency?.record(clock.now() - startedAt);
+            finish(success(result.result), attempt);
+          } else {
+            errors.push(result.error);
+            if (controllers.length <= maxHedges) launch();
+            else if (errors.length === controllers.length) fail();
+          }
+        }
+      );
+    };
+
+    if (signal?.aborted) {
+      errors.push(new AbortError());
+      finish(failure(new AggregateError(errors, "Operation aborted")), null);
+      return;
     }
-  }
+    signal?.addEventListener("abort", onAbort, { once: true });
+    launch();
+  });
+}
 
-  throw lastError!;
+// Safe iteration (tree-shakeable) - one Result per item, the loop keeps going
+export interface MapSafeOptions<U = unknown, E = Error> {
+  // Items processed at once (default 1)
+  concurrency?: number;
+  // Yield in source order (default) or as soon as each item finishes
+  ordered?: boolean;
+  // Stop (and close the source) once this many failures have been yielded
+  maxErrors?: number;
+  // Per-item retries through tryAndCatchWithRetry
+  retry?: Omit<RetryOptions<E, U>, "signal" | "mapError">;
+  mapError?: ErrorMapper<E>;
+  signal?: AbortSignal;
 }
 
+type AnyIterator<T> = AsyncIterator<T> | Iterator<T>;
+
+const iteratorOf = <T>(source: AsyncIterable<T> | Iterable<T>) =>
+  (Symbol.asyncIterator in source
+    ? (source as AsyncIterable<T>)[Symbol.asyncIterator]()
+    : (source as Iterable<T>)[Symbol.iterator]()) as AnyIterator<T>;
+
 /**
- * Advanced retry with full configuration (tree-shakeable)
- * Only include if you need detailed retry control
+ * Maps every item of a (async) iterable through `fn`, yielding a Result per
+ * item. A throwing source yields one final failure. The source's `return()`
+ * is always called when iteration stops early (break, maxErrors, signal).
  */
-export async function tryAndCatchWithRetry<T>(
-  fn: () => Promise<T>,
-  options: RetryOptions
-): Promise<RetryResult<T>> {
+export async function* mapSafe<T, U, E = Error>(
+  source: AsyncIterable<T> | Iterable<T>,
+  fn: (item: T, index: number, signal: AbortSignal) => Awaitable<U>,
+  options: MapSafeOptions<U, E> = {}
+): AsyncGenerator<Result<U, E>, void, undefined> {
   const {
-    maxRetries,
-    delay = 1000,
-    shouldRetry = () => true,
-    timeout,
+    concurrency = 1,
+    ordered = true,
+    maxErrors = Infinity,
+    retry,
+    mapError,
+    signal,
   } = options;
-  const errors: Error[] = [];
-  const startTime = Date.now();
+  const iterator = iteratorOf(source);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const aborted = new Promise<null>((resolve) =>
+    controller.signal.addEventListener("abort", () => resolve(null))
+  );
+  if (signal?.aborted) controller.abort();
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
-    try {
-      let result: T;
+  const running = new Map<number, Promise<[number, Result<U, E>]>>();
+  const finished = new Map<number, Result<U, E>>();
+  let sourceDone = false;
+  let sourceError: E | undefined;
+  let pulled = 0;
+  let yielded = 0;
+  let errors = 0;
 
-      if (timeout) {
-        result = await Promise.race([
-          fn(),
-          new Promise<never>((_, reject) =>
-            setTimeout(() => reject(new Error("Operation timeout")), timeout)
-          ),
-        ]);
-      } else {
-        result = await fn();
+  const runItem = (item: T, index: number): Promise<Result<U, E>> =>
+    retry
+      ? tryAndCatchWithRetry(
+          async (attemptSignal) => fn(item, index, attemptSignal),
+          { ...retry, signal: controller.signal, mapError }
+        )
+      : tryAndCatchAsync(async () => fn(item, index, controller.signal), {
+          mapError,
+        });
+
+  try {
+    while (!controller.signal.aborted) {
+      while (
+        !sourceDone &&
+        running.size + finished.size < Math.max(1, concurrency)
+      ) {
+        let step: IteratorResult<T>;
+        try {
+          step = await iterator.next();
+        } catch (error) {
+          sourceDone = true;
+          sourceError = normalizeError(error, mapError);
+          break;
+        }
+        if (step.done) {
+          sourceDone = true;
+          break;
+        }
+        const index = pulled++;
+        running.set(
+          index,
+          runItem(step.value, index).then((result) => [index, result])
+        );
       }
+      if (!running.size && !finished.size) break;
 
-      return {
-        result,
-        error: null,
-        attempts: attempt + 1,
-        errors,
-        totalTime: Date.now() - startTime,
-      };
-    } catch (error) {
-      const err = error instanceof Error ? error : new Error(String(error));
-      errors.push(err);
+      const settled = await Promise.race([...running.values(), aborted]);
+      if (!settled) break;
+      const [index, result] = settled;
+      running.delete(index);
 
-      if (attempt < maxRetries && shouldRetry(err)) {
-        const delayMs = typeof delay === "function" ? delay(attempt) : delay;
-        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      // Ordered output waits for the head; unordered yields whatever is done
+      const ready: Result<U, E>[] = [];
+      if (ordered) {
+        finished.set(index, result);
+        for (; finished.has(yielded); yielded++) {
+          ready.push(finished.get(yielded)!);
+          finished.delete(yielded);
+        }
       } else {
-        return {
-          result: null,
-          error: err,
-          attempts: attempt + 1,
-          errors,
-          totalTime: Date.now() - startTime,
-        };
+        ready.push(result);
       }
+      for (const item of ready) {
+        yield item;
+        if (!item.ok && ++errors >= maxErrors) return;
+      }
+    }
+    if (sourceError !== undefined && !controller.signal.aborted) {
+      yield failure(sourceError);
     }
+  } finally {
+    controller.abort();
+    signal?.removeEventListener("abort", onAbort);
+    if (!sourceDone) await iterator.return?.();
   }
+}
 
-  throw new Error("Retry logic error");
+// One Result per item of the source; a throwing source ends with a failure
+export function safeIterate<T, E = Error>(
+  source: AsyncIterable<T> | Iterable<T>,
+  options: Pick<MapSafeOptions<T, E>, "mapError" | "signal"> = {}
+): AsyncGenerator<Result<T, E>, void, undefined> {
+  return mapSafe(source, (item) => item, options);
 }
 
-// Tree-shakeable utilities - only bundled if imported
-export const ErrorTypes = {
-  isNetworkError: (error: Error) =>
-    /network|fetch|request|connection/i.test(error.message),
-  isTimeoutError: (error: Error) => /timeout|timed out/i.test(error.message),
-  isRetryable: (error: Error) =>
-    ErrorTypes.isNetworkError(error) || ErrorTypes.isTimeoutError(error),
-};
+// JSON-safe serialization (tree-shakeable) - Error properties are not
+// enumerable, so `JSON.stringify(result)` alone produces `{"error":{}}`
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+  errors?: unknown[];
+  [property: string]: unknown;
+}
 
-export const RetryStrategies = {
-  exponentialBackoff:
-    (baseMs = 1000, maxMs = 30000) =>
-    (attempt: number) =>
-      Math.min(baseMs * Math.pow(2, attempt) + Math.random() * 1000, maxMs),
-  linearBackoff:
-    (delayMs = 1000) =>
-    (attempt: number) =>
-      delayMs * (attempt + 1),
-  fixedDelay:
-    (delayMs = 1000) =>
-    () =>
-      delayMs,
-};
+export type SerializedResult<T = unknown> =
+  | { ok: true; result: T; error: null; [extra: string]: unknown }
+  | {
+      ok: false;
+      result: null;
+      error: SerializedError;
+      [extra: string]: unknown;
+    };
 
-export const SimpleRetry = {
-  quick: async <T>(fn: () => Promise<T>, maxRetries = 3) =>
-    withRetry(fn, maxRetries, 1000),
-  network: async <T>(fn: () => Promise<T>) => withRetry(fn, 3, 2000),
-  database: async <T>(fn: () => Promise<T>) => withRetry(fn, 5, 3000),
-};
+// Any constructor works; revival uses its prototype and never calls it
+export type ErrorClass = abstract new (...args: never[]) => object;
+
+const errorRegistry = new Map<string, ErrorClass>(
+  [
+    Error,
+    TypeError,
+    RangeError,
+    SyntaxError,
+    ReferenceError,
+    EvalError,
+    URIError,
+    AggregateError,
+    TimeoutError,
+    AbortError,
+    CircuitOpenError,
+    BulkheadRejectedError,
+    ResourceError,
+    TryAndCatchError,
+    ValidationError,
+  ].map((errorClass) => [errorClass.name, errorClass])
+);
+
+/**
+ * Registers a class so deserializeError revives it by `name`.
+ * Built-in errors and this package's error classes are pre-registered.
+ */
+export function registerErrorClass(
+  errorClass: ErrorClass,
+  name = errorClass.name
+): void {
+  errorRegistry.set(name, errorClass);
+}
+
+const CIRCULAR = "[Circular]";
+const ERROR_FIELDS = ["name", "message", "stack", "cause", "errors"];
+// Never copied onto a revived error
+const UNSAFE_KEYS = ["__proto__", "constructor", "prototype"];
+
+function serializeValue(value: unknown, seen: Set<object>): unknown {
+  switch (typeof value) {
+    case "bigint":
+      return value.toString();
+    case "symbol":
+      return value.toString();
+    case "function":
+    case "undefined":
+      return undefined;
+    case "object":
+      break;
+    default:
+      return value;
+  }
+  if (value === null) return null;
+  if (seen.has(value)) return CIRCULAR;
+  if (isErrorLike(value)) return serializeErrorValue(value, seen);
+
+  const toJSON = (value as { toJSON?: unknown }).toJSON;
+  if (typeof toJSON === "function") {
+    return serializeValue(toJSON.call(value), seen);
+  }
+
+  seen.add(value);
+  let serialized: unknown;
+  if (Array.isArray(value) || value instanceof Set) {
+    serialized = Array.from(
+      value,
+      (item) => serializeValue(item, seen) ?? null
+    );
+  } else {
+    const entries =
+      value instanceof Map ? Array.from(value) : Object.entries(value);
+    const record: Record<string, unknown> = {};
+    for (const [key, item] of entries) {
+      const serializedItem = serializeValue(item, seen);
+      if (serializedItem !== undefined) record[String(key)] = serializedItem;
+    }
+    serialized = record;
+  }
+  seen.delete(value);
+  return serialized;
+}
+
+function isErrorLike(value: object): value is Error {
+  return (
+    value instanceof Error ||
+    Object.prototype.toString.call(value) === "[object Error]"
+  );
+}
+
+function serializeErrorValue(
+  error: object,
+  seen: Set<object>
+): SerializedError {
+  seen.add(error);
+  const source = error as Partial<Error> & {
+    cause?: unknown;
+    errors?: unknown;
+  };
+  const serialized: SerializedError = {
+    name:
+      typeof source.name === "string" ? source.name : error.constructor.name,
+    message:
+      typeof source.message === "string" ? source.message : String(error),
+  };
+  if (typeof source.stack === "string") serialized.stack = source.stack;
+  if ("cause" in source && source.cause !== undefined) {
+    serialized.cause = serializeValue(source.cause, seen);
+  }
+  if (Array.isArray(source.errors)) {
+    serialized.errors = source.errors.map((item) => serializeValue(item, seen));
+  }
+
+  for (const key of Object.getOwnPropertyNames(error)) {
+    if (ERROR_FIELDS.includes(key)) continue;
+    const value = serializeValue((error as Record<string, unknown>)[key], seen);
+    if (value !== undefined) serialized[key] = value;
+  }
+  seen.delete(error);
+  return serialized;
+}
+
+/**
+ * Captures name, message, stack, the `cause` chain, AggregateError `errors`
+ * and custom own properties. Cycles become "[Circular]"; functions are
+ * dropped and bigints/symbols become strings. Non-Error throws are wrapped.
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (typeof error === "object" && error !== null) {
+    return serializeErrorValue(error, new Set());
+  }
+  return { name: "Error", message: String(error) };
+}
+
+/**
+ * JSON-safe copy of a Result (extra fields such as RetryResult's `attempts`
+ * and `errors` are kept).
+ */
+export function serializeResult<T>(
+  result: Result<T, unknown> | LegacyResult<T, unknown>
+): SerializedResult {
+  const serialized = serializeValue(
+    { ...result, error: undefined },
+    new Set()
+  ) as Record<string, unknown>;
+  serialized.result ??= null;
+  if (result.error === null || result.error === undefined) {
+    return { ...serialized, ok: true, error: null } as SerializedResult;
+  }
+  return {
+    ...serialized,
+    ok: false,
+    error: serializeError(result.error),
+  } as SerializedResult;
+}
+
+function isSerializedError(value: unknown): value is SerializedError {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as SerializedError).name === "string" &&
+    typeof (value as SerializedError).message === "string"
+  );
+}
+
+function defineHidden(target: object, key: string, value: unknown): void {
+  Object.defineProperty(target, key, {
+    value,
+    writable: true,
+    configurable: true,
+    enumerable: false,
+  });
+}
+
+/**
+ * Revives a serialized error as an instance of the registered class with the
+ * same name (plain Error otherwise), restoring `cause` and `errors` chains.
+ */
+export function deserializeError(
+  data: SerializedError,
+  registry: Record<string, ErrorClass> = {}
+): Error {
+  // Own properties only: names like "constructor" or "__proto__" come from
+  // untrusted payloads and must not reach Object.prototype
+  const errorClass = Object.prototype.hasOwnProperty.call(registry, data.name)
+    ? registry[data.name]
+    : errorRegistry.get(data.name);
+  const error = Object.create(
+    errorClass ? errorClass.prototype : Error.prototype
+  ) as Error;
+
+  defineHidden(error, "message", data.message);
+  if (data.stack !== undefined) defineHidden(error, "stack", data.stack);
+  if (error.name !== data.name) error.name = data.name;
+  if ("cause" in data) {
+    defineHidden(
+      error,
+      "cause",
+      isSerializedError(data.cause)
+        ? deserializeError(data.cause, registry)
+        : data.cause
+    );
+  }
+  if (Array.isArray(data.errors)) {
+    defineHidden(
+      error,
+      "errors",
+      data.errors.map((item) =>
+        isSerializedError(item) ? deserializeError(item, registry) : item
+      )
+    );
+  }
+
+  for (const key of Object.keys(data)) {
+    if (!ERROR_FIELDS.includes(key) && !UNSAFE_KEYS.includes(key)) {
+      Object.defineProperty(error, key, {
+        value: data[key],
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+  }
+  return error;
+}
+
+/**
+ * Inverse of serializeResult; also revives `cleanupError` and RetryResult's
+ * `errors` array.
+ */
+export function deserializeResult<T>(
+  data: SerializedResult<T>,
+  registry?: Record<string, ErrorClass>
+): Result<T> {
+  const { errors, history, cleanupError } = data;
+  const revive = (item: unknown) =>
+    isSerializedError(item) ? deserializeError(item, registry) : item;
+  const revived: Record<string, unknown> = {};
+  if (Array.isArray(errors)) {
+    revived.errors = errors.map(revive);
+  }
+  // RetryResult attempt records
+  if (Array.isArray(history)) {
+    revived.history = history.map((record) =>
+      typeof record === "object" && record !== null
+        ? { ...record, error: revive((record as AttemptRecord).error) }
+        : record
+    );
+  }
+  if (isSerializedError(cleanupError)) {
+    revived.cleanupError = deserializeError(cleanupError, registry);
+  }
+
+  return data.ok
+    ? ({ ...data, ...revived } as Success<T>)
+    : { ...data, ...revived, error: deserializeError(data.error, registry) };
+}
 
 /**
  * 🎯 UNIFIED API - Addresses all usability concerns
@@ -263,47 +3832,287 @@ export const TryAndCatch = {
   unwrap,
   unwrapOr,
 
+  // Result combinators
+  map,
+  flatMap,
+  andThen: flatMap,
+  mapError,
+  orElse,
+  match,
+  tap,
+  tapError,
+  unwrapOrElse,
+  toPromise,
+  mapAsync,
+  flatMapAsync,
+  andThenAsync: flatMapAsync,
+  mapErrorAsync,
+  orElseAsync,
+  matchAsync,
+  tapAsync,
+  tapErrorAsync,
+
+  // Aggregate helpers
+  allResults,
+  allSettledResults,
+  anyResult,
+  partitionResults,
+  tryEach,
+  withFallback,
+  hedge,
+  dedupe,
+  cached,
+  mapSafe,
+  safeIterate,
+
+  // Resource brackets
+  acquireUseRelease,
+  withResource,
+
+  // JSON-safe serialization
+  serializeResult,
+  serializeError,
+  deserializeResult,
+  deserializeError,
+  registerErrorClass,
+
+  // Function wrappers
+  safeify,
+  safeifyAsync,
+  retryable,
+
+  // Error context
+  wrapError,
+  formatErrorChain,
+
+  // Tracing
+  otelTracer,
+
+  // Validation
+  safeParse,
+
   // Warning system
   warnOnError,
+  configure,
 
   // Utilities (tree-shakeable when imported directly)
   ErrorTypes,
   RetryStrategies,
+  RetryDecisions,
+  getRetryAfter,
+  classifyError,
+  registerErrorRule,
+  previewDelays,
+  seededRandom,
   SimpleRetry,
 } as const;
 
 // Type guards for better TypeScript integration
-export function isSuccess<T>(
-  result: Result<T>
-): result is { result: T; error: null } {
-  return result.error === null;
+// (accept the legacy `{ result, error }` shape as well as `Result<T, E>`)
+// `ok` decides when present; legacy shapes fail on any error but null or
+// undefined (like fromLegacy), so typed errors such as 0 or "" still count
+function hasFailed(
+  result: Result<unknown, unknown> | LegacyResult<unknown, unknown>
+): boolean {
+  return "ok" in result && typeof result.ok === "boolean"
+    ? !result.ok
+    : result.error !== null && result.error !== undefined;
+}
+
+export function isSuccess<T, E = Error>(
+  result: Result<T, E> | LegacyResult<T, E>
+): result is { ok?: true; result: T; error: null } {
+  return !hasFailed(result);
 }
 
-export function isError<T>(
-  result: Result<T>
-): result is { result: null; error: Error } {
-  return result.error !== null;
+export function isError<T, E = Error>(
+  result: Result<T, E> | LegacyResult<T, E>
+): result is { ok?: false; result: null; error: E } {
+  return hasFailed(result);
 }
 
 // Safe unwrap functions
-export function unwrap<T>(result: Result<T>): T {
-  if (result.error) {
+export function unwrap<T, E = Error>(
+  result: Result<T, E> | LegacyResult<T, E>
+): T {
+  if (isError(result)) {
     throw result.error;
   }
   return result.result!;
 }
 
-export function unwrapOr<T>(result: Result<T>, defaultValue: T): T {
-  return result.error ? defaultValue : result.result!;
+export function unwrapOr<T, E = Error>(
+  result: Result<T, E> | LegacyResult<T, E>,
+  defaultValue: T
+): T {
+  return isError(result) ? defaultValue : result.result!;
+}
+
+// Result combinators - pure and tree-shakeable; callbacks are expected not to throw
+export type Awaitable<T> = T | Promise<T>;
+
+export function map<T, U, E = Error>(
+  result: Result<T, E>,
+  fn: (value: T) => U
+): Result<U, E> {
+  return result.ok ? success(fn(result.result)) : result;
+}
+
+export function flatMap<T, U, E = Error, F = E>(
+  result: Result<T, E>,
+  fn: (value: T) => Result<U, F>
+): Result<U, E | F> {
+  return result.ok ? fn(result.result) : result;
+}
+
+export const andThen = flatMap;
+
+export function mapError<T, E, F>(
+  result: Result<T, E>,
+  fn: (error: E) => F
+): Result<T, F> {
+  return result.ok ? result : failure(fn(result.error));
+}
+
+export function orElse<T, E, U = T, F = E>(
+  result: Result<T, E>,
+  fn: (error: E) => Result<U, F>
+): Result<T | U, F> {
+  return result.ok ? result : fn(result.error);
+}
+
+export function match<T, E, U>(
+  result: Result<T, E>,
+  handlers: { ok: (value: T) => U; err: (error: E) => U }
+): U {
+  return result.ok ? handlers.ok(result.result) : handlers.err(result.error);
+}
+
+export function tap<R extends Result<unknown, unknown>>(
+  result: R,
+  fn: (value: Extract<R, { ok: true }>["result"]) => void
+): R {
+  if (result.ok) fn(result.result);
+  return result;
+}
+
+export function tapError<R extends Result<unknown, unknown>>(
+  result: R,
+  fn: (error: Extract<R, { ok: false }>["error"]) => void
+): R {
+  if (!result.ok) fn(result.error);
+  return result;
+}
+
+export function unwrapOrElse<T, E = Error>(
+  result: Result<T, E>,
+  fn: (error: E) => T
+): T {
+  return result.ok ? result.result : fn(result.error);
+}
+
+// Resolves with the value or rejects with the error - back to plain promises
+export async function toPromise<T, E = Error>(
+  result: Awaitable<Result<T, E>>
+): Promise<T> {
+  const settled = await result;
+  if (settled.ok) return settled.result;
+  throw settled.error;
+}
+
+// Async-aware variants: accept Promise<Result> and async callbacks
+export async function mapAsync<T, U, E = Error>(
+  result: Awaitable<Result<T, E>>,
+  fn: (value: T) => Awaitable<U>
+): Promise<Result<U, E>> {
+  const settled = await result;
+  return settled.ok ? success(await fn(settled.result)) : settled;
+}
+
+export async function flatMapAsync<T, U, E = Error, F = E>(
+  result: Awaitable<Result<T, E>>,
+  fn: (value: T) => Awaitable<Result<U, F>>
+): Promise<Result<U, E | F>> {
+  const settled = await result;
+  return settled.ok ? fn(settled.result) : settled;
+}
+
+export const andThenAsync = flatMapAsync;
+
+export async function mapErrorAsync<T, E, F>(
+  result: Awaitable<Result<T, E>>,
+  fn: (error: E) => Awaitable<F>
+): Promise<Result<T, F>> {
+  const settled = await result;
+  return settled.ok ? settled : failure(await fn(settled.error));
+}
+
+export async function orElseAsync<T, E, U = T, F = E>(
+  result: Awaitable<Result<T, E>>,
+  fn: (error: E) => Awaitable<Result<U, F>>
+): Promise<Result<T | U, F>> {
+  const settled = await result;
+  return settled.ok ? settled : fn(settled.error);
+}
+
+export async function matchAsync<T, E, U>(
+  result: Awaitable<Result<T, E>>,
+  handlers: { ok: (value: T) => Awaitable<U>; err: (error: E) => Awaitable<U> }
+): Promise<U> {
+  const settled = await result;
+  return settled.ok ? handlers.ok(settled.result) : handlers.err(settled.error);
+}
+
+export async function tapAsync<R extends Result<unknown, unknown>>(
+  result: Awaitable<R>,
+  fn: (value: Extract<R, { ok: true }>["result"]) => Awaitable<void>
+): Promise<R> {
+  const settled = await result;
+  if (settled.ok) await fn(settled.result);
+  return settled;
+}
+
+export async function tapErrorAsync<R extends Result<unknown, unknown>>(
+  result: Awaitable<R>,
+  fn: (error: Extract<R, { ok: false }>["error"]) => Awaitable<void>
+): Promise<R> {
+  const settled = await result;
+  if (!settled.ok) await fn(settled.error);
+  return settled;
 }
 
 // Warning system for better debugging
-export function warnOnError<T>(result: Result<T>, context?: string): Result<T> {
+export function warnOnError<R extends LegacyResult<unknown, unknown>>(
+  result: R,
+  context?: string | ({ operation?: string } & ErrorContext),
+  options: { logger?: Logger } = {}
+): R {
   if (result.error) {
-    const warning = context
-      ? `[try-and-catch] Error in ${context}: ${result.error.message}`
-      : `[try-and-catch] Unhandled error: ${result.error.message}`;
-    console.warn(warning);
+    const message =
+      result.error instanceof Error
+        ? result.error.message
+        : String(result.error);
+    // A string is the operation name; an object may carry one plus details,
+    // falling back to what a TryAndCatchError already knows
+    const described =
+      result.error instanceof TryAndCatchError ? result.error : undefined;
+    const { operation = described?.operation, ...details } =
+      typeof context === "string" ? { operation: context } : context ?? {};
+    const bag = { ...described?.context, ...details };
+    const warning = operation
+      ? `[try-and-catch] Error in ${operation}: ${message}`
+      : `[try-and-catch] Unhandled error: ${message}`;
+    log(
+      {
+        level: "warn",
+        phase: "unhandled",
+        message: warning,
+        operation,
+        ...(Object.keys(bag).length ? { context: bag } : {}),
+        error: result.error,
+      },
+      options.logger
+    );
   }
   return result;
 }
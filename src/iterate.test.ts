@@ -0,0 +1,171 @@
+import { mapSafe, Result, safeIterate, TryAndCatch } from "./index";
+
+const collect = async <T>(iterable: AsyncIterable<T>) => {
+  const items: T[] = [];
+  for await (const item of iterable) items.push(item);
+  return items;
+};
+
+const values = <T>(results: Result<T>[]) =>
+  results.map((r) => (r.ok ? r.result : `error: ${r.error.message}`));
+
+// Async source that records whether it was closed
+const trackedSource = (count: number) => {
+  const state = { closed: false, pulled: 0 };
+  async function* generate() {
+    try {
+      for (let i = 1; i <= count; i++) {
+        state.pulled++;
+        yield i;
+      }
+    } finally {
+      state.closed = true;
+    }
+  }
+  return { source: generate(), state };
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("mapSafe", () => {
+  it("yields a Result per item and keeps going after failures", async () => {
+    const results = await collect(
+      mapSafe([1, 2, 3], (n) => {
+        if (n === 2) throw new Error("bad item");
+        return n * 10;
+      })
+    );
+
+    expect(values(results)).toEqual([10, "error: bad item", 30]);
+  });
+
+  it("keeps source order with bounded concurrency", async () => {
+    let active = 0;
+    let peak = 0;
+    const results = await collect(
+      mapSafe(
+        [30, 10, 20, 5],
+        async (ms) => {
+          peak = Math.max(peak, ++active);
+          await wait(ms);
+          active--;
+          return ms;
+        },
+        { concurrency: 2 }
+      )
+    );
+
+    expect(values(results)).toEqual([30, 10, 20, 5]);
+    expect(peak).toBe(2);
+  });
+
+  it("yields in completion order when unordered", async () => {
+    const results = await collect(
+      mapSafe(
+        [40, 5, 20],
+        async (ms) => {
+          await wait(ms);
+          return ms;
+        },
+        {
+          concurrency: 3,
+          ordered: false,
+        }
+      )
+    );
+
+    expect(values(results)).toEqual([5, 20, 40]);
+  });
+
+  it("retries items individually", async () => {
+    const attempts = new Map<number, number>();
+    const results = await collect(
+      mapSafe(
+        [1, 2],
+        (n) => {
+          const count = (attempts.get(n) ?? 0) + 1;
+          attempts.set(n, count);
+          if (n === 2 && count < 3) throw new Error("flaky");
+          return n;
+        },
+        { retry: { maxRetries: 3, delay: 0 } }
+      )
+    );
+
+    expect(values(results)).toEqual([1, 2]);
+    expect(attempts.get(2)).toBe(3);
+  });
+
+  it("stops and closes the source after maxErrors failures", async () => {
+    const { source, state } = trackedSource(100);
+    const results = await collect(
+      mapSafe(
+        source,
+        (n) => {
+          if (n % 2 === 0) throw new Error(`even ${n}`);
+          return n;
+        },
+        { maxErrors: 2 }
+      )
+    );
+
+    expect(values(results)).toEqual([1, "error: even 2", 3, "error: even 4"]);
+    expect(state.closed).toBe(true);
+    expect(state.pulled).toBeLessThan(100);
+  });
+
+  it("closes the source when the consumer breaks early", async () => {
+    const { source, state } = trackedSource(100);
+
+    for await (const result of mapSafe(source, (n) => n)) {
+      if (result.result === 3) break;
+    }
+
+    expect(state.closed).toBe(true);
+  });
+
+  it("stops when the signal aborts and aborts in-flight items", async () => {
+    const { source, state } = trackedSource(100);
+    const controller = new AbortController();
+    const seen: AbortSignal[] = [];
+
+    const results = await collect(
+      mapSafe(
+        source,
+        (n, _index, signal) => {
+          seen.push(signal);
+          if (n === 3) controller.abort();
+          return n;
+        },
+        { signal: controller.signal }
+      )
+    );
+
+    expect(results.length).toBeLessThanOrEqual(3);
+    expect(seen[0].aborted).toBe(true);
+    expect(state.closed).toBe(true);
+  });
+});
+
+describe("safeIterate", () => {
+  it("wraps each item and ends with a failure when the source throws", async () => {
+    async function* pages() {
+      yield "page 1";
+      yield "page 2";
+      throw new Error("connection reset");
+    }
+
+    const results = await collect(safeIterate(pages()));
+
+    expect(values(results)).toEqual([
+      "page 1",
+      "page 2",
+      "error: connection reset",
+    ]);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.mapSafe).toBe(mapSafe);
+    expect(TryAndCatch.safeIterate).toBe(safeIterate);
+  });
+});
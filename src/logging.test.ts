@@ -0,0 +1,125 @@
+import {
+  configure,
+  consoleLogger,
+  silentLogger,
+  pinoLogger,
+  winstonLogger,
+  tryAndCatch,
+  tryAndCatchAsync,
+  tryAndCatchWithRetry,
+  warnOnError,
+  LogEntry,
+} from "./index";
+
+const failingCleanup = () => {
+  throw new Error("close failed");
+};
+
+describe("Pluggable logger", () => {
+  let entries: LogEntry[];
+  const collect = (entry: LogEntry) => entries.push(entry);
+
+  beforeEach(() => {
+    entries = [];
+  });
+
+  afterEach(() => {
+    configure({ logger: consoleLogger, logLevel: "warn" });
+  });
+
+  it("routes cleanup failures to the configured logger", async () => {
+    configure({ logger: collect });
+
+    tryAndCatch(() => 1, failingCleanup);
+    await tryAndCatchAsync(async () => 1, {
+      onFinally: failingCleanup,
+      operation: "db.release",
+    });
+
+    expect(entries).toEqual([
+      expect.objectContaining({ level: "warn", phase: "cleanup" }),
+      expect.objectContaining({
+        phase: "cleanup",
+        operation: "db.release",
+        error: expect.objectContaining({ message: "close failed" }),
+      }),
+    ]);
+  });
+
+  it("prefers the per-call logger", () => {
+    const global = jest.fn();
+    configure({ logger: global });
+
+    tryAndCatch(() => 1, { onFinally: failingCleanup, logger: collect });
+    warnOnError({ result: null, error: new Error("x") }, "job", {
+      logger: collect,
+    });
+
+    expect(global).not.toHaveBeenCalled();
+    expect(entries.map((entry) => entry.phase)).toEqual([
+      "cleanup",
+      "unhandled",
+    ]);
+    expect(entries[1].operation).toBe("job");
+  });
+
+  it("reports retries at debug level", async () => {
+    configure({ logger: collect, logLevel: "debug" });
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    await tryAndCatchWithRetry(fn, {
+      maxRetries: 2,
+      delay: 0,
+      operation: "fetchUser",
+    });
+
+    expect(entries).toEqual([
+      expect.objectContaining({
+        level: "debug",
+        phase: "retry",
+        operation: "fetchUser",
+        attempt: 1,
+        delayMs: 0,
+      }),
+    ]);
+  });
+
+  it("filters by level and can be silenced", () => {
+    const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+
+    configure({ logLevel: "error" });
+    tryAndCatch(() => 1, failingCleanup);
+    configure({ logLevel: "warn", logger: silentLogger });
+    tryAndCatch(() => 1, failingCleanup);
+
+    expect(consoleSpy).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it("adapts pino- and winston-shaped loggers", () => {
+    const pino = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const winston = { log: jest.fn() };
+    const error = new Error("close failed");
+
+    pinoLogger(pino)({ level: "warn", phase: "cleanup", message: "m", error });
+    winstonLogger(winston)({ level: "error", phase: "retry", message: "r" });
+
+    expect(pino.warn).toHaveBeenCalledWith(
+      { phase: "cleanup", err: error },
+      "m"
+    );
+    expect(winston.log).toHaveBeenCalledWith({
+      level: "error",
+      phase: "retry",
+      message: "r",
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import {
+  configure,
+  MetricsRegistry,
+  tryAndCatch,
+  tryAndCatchWithRetry,
+  tryEach,
+  VirtualClock,
+} from "./index";
+
+const silent = () => undefined;
+
+describe("MetricsRegistry", () => {
+  it("records outcomes, attempts, retries and latency per operation", async () => {
+    const metrics = new MetricsRegistry({ buckets: [100, 1000] });
+    const clock = new VirtualClock();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("ok");
+
+    const pending = tryAndCatchWithRetry(fn, {
+      maxRetries: 2,
+      delay: 250,
+      operation: "fetchUser",
+      metrics,
+      clock,
+    });
+    await clock.runAll();
+    await pending;
+    await tryAndCatchWithRetry(() => Promise.reject(new Error("down")), {
+      maxRetries: 0,
+      operation: "fetchUser",
+      metrics,
+      logger: silent,
+    });
+
+    expect(metrics.snapshot().fetchUser).toEqual({
+      successes: 1,
+      failures: 1,
+      attempts: 3,
+      retries: 1,
+      retryDelayMs: 250,
+      fallbacks: {},
+      cleanupFailures: 0,
+      latency: {
+        buckets: { 100: 1, 1000: 2 },
+        count: 2,
+        sumMs: expect.any(Number),
+      },
+    });
+  });
+
+  it("ignores unnamed operations", async () => {
+    const metrics = new MetricsRegistry();
+
+    await tryAndCatchWithRetry(async () => "ok", { maxRetries: 0, metrics });
+
+    expect(metrics.snapshot()).toEqual({});
+  });
+
+  it("counts fallback sources and cleanup failures", async () => {
+    const metrics = new MetricsRegistry();
+
+    await tryEach(
+      [
+        () => Promise.reject(new Error("primary down")),
+        { name: "replica", run: () => "value" },
+      ],
+      { operation: "loadConfig", metrics }
+    );
+    tryAndCatch(() => 1, {
+      onFinally: () => {
+        throw new Error("close failed");
+      },
+      operation: "readFile",
+      metrics,
+      logger: silent,
+    });
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.loadConfig).toMatchObject({
+      successes: 1,
+      attempts: 2,
+      fallbacks: { replica: 1 },
+    });
+    expect(snapshot.readFile.cleanupFailures).toBe(1);
+  });
+
+  it("returns snapshots that don't change with later calls", async () => {
+    const metrics = new MetricsRegistry();
+    const run = () =>
+      tryAndCatchWithRetry(async () => "ok", {
+        maxRetries: 0,
+        operation: "op",
+        metrics,
+      });
+
+    await run();
+    const before = metrics.snapshot();
+    await run();
+
+    expect(before.op.successes).toBe(1);
+    metrics.reset();
+    expect(metrics.snapshot()).toEqual({});
+  });
+
+  it("uses the globally configured registry", async () => {
+    const metrics = new MetricsRegistry();
+    configure({ metrics });
+    try {
+      await tryAndCatchWithRetry(async () => "ok", {
+        maxRetries: 0,
+        operation: "global",
+      });
+    } finally {
+      configure({ metrics: undefined });
+    }
+
+    expect(metrics.snapshot().global.successes).toBe(1);
+  });
+});
+
+describe("toPrometheus", () => {
+  it("renders counters and a cumulative histogram in seconds", () => {
+    const metrics = new MetricsRegistry({ buckets: [50, 500] });
+    metrics.recordCall("fetch", true, 20);
+    metrics.recordCall("fetch", false, 300, 3);
+    metrics.recordRetry("fetch", 100);
+    metrics.recordFallback("fetch", "cache");
+
+    const text = metrics.toPrometheus();
+
+    expect(text).toContain("# TYPE try_and_catch_calls_total counter");
+    expect(text).toContain(
+      'try_and_catch_calls_total{operation="fetch",outcome="success"} 1'
+    );
+    expect(text).toContain('try_and_catch_attempts_total{operation="fetch"} 4');
+    expect(text).toContain(
+      'try_and_catch_retry_delay_seconds_total{operation="fetch"} 0.1'
+    );
+    expect(text).toContain(
+      'try_and_catch_fallbacks_total{operation="fetch",source="cache"} 1'
+    );
+    expect(text).toContain("# TYPE try_and_catch_duration_seconds histogram");
+    expect(text).toContain(
+      'try_and_catch_duration_seconds_bucket{operation="fetch",le="0.05"} 1'
+    );
+    expect(text).toContain(
+      'try_and_catch_duration_seconds_bucket{operation="fetch",le="0.5"} 2'
+    );
+    expect(text).toContain(
+      'try_and_catch_duration_seconds_bucket{operation="fetch",le="+Inf"} 2'
+    );
+    expect(text).toContain(
+      'try_and_catch_duration_seconds_sum{operation="fetch"} 0.32'
+    );
+    expect(text.endsWith("\n")).toBe(true);
+  });
+
+  it("escapes label values and accepts a prefix", () => {
+    const metrics = new MetricsRegistry();
+    metrics.recordCleanupFailure('say "hi"\n');
+
+    expect(metrics.toPrometheus("app")).toContain(
+      'app_cleanup_failures_total{operation="say \\"hi\\"\\n"} 1'
+    );
+  });
+});
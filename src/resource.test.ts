@@ -0,0 +1,132 @@
+import { acquireUseRelease, withResource, ResourceError } from "./index";
+
+const disposeSymbol: symbol =
+  (Symbol as { dispose?: symbol }).dispose ?? Symbol.for("Symbol.dispose");
+const asyncDisposeSymbol: symbol =
+  (Symbol as { asyncDispose?: symbol }).asyncDispose ??
+  Symbol.for("Symbol.asyncDispose");
+
+describe("acquireUseRelease", () => {
+  it("releases after a successful use", async () => {
+    const release = jest.fn();
+
+    const result = await acquireUseRelease(
+      async () => ({ id: 7 }),
+      (conn) => conn.id * 2,
+      release
+    );
+
+    expect(result.result).toBe(14);
+    expect(release).toHaveBeenCalledWith({ id: 7 });
+  });
+
+  it("never releases a resource that failed to acquire", async () => {
+    const release = jest.fn();
+
+    const { error } = await acquireUseRelease(
+      async () => {
+        throw new Error("pool exhausted");
+      },
+      () => "unused",
+      release
+    );
+
+    expect(error).toBeInstanceOf(ResourceError);
+    expect(error?.phase).toBe("acquire");
+    expect(error?.cause.message).toBe("pool exhausted");
+    expect(Object.keys(error!)).not.toContain("cause");
+    expect(release).not.toHaveBeenCalled();
+  });
+
+  it("reports a use failure and still releases", async () => {
+    const release = jest.fn().mockRejectedValue(new Error("close failed"));
+
+    const { error } = await acquireUseRelease(
+      () => "file",
+      () => {
+        throw new Error("parse failed");
+      },
+      release
+    );
+
+    expect(error?.phase).toBe("use");
+    expect(error?.cause.message).toBe("parse failed");
+    expect(error?.releaseErrors.map((e) => e.message)).toEqual([
+      "close failed",
+    ]);
+  });
+
+  it("reports release failures after a successful use", async () => {
+    const { error } = await acquireUseRelease(
+      () => "file",
+      () => "read",
+      () => {
+        throw new Error("close failed");
+      }
+    );
+
+    expect(error?.phase).toBe("release");
+    expect(error?.message).toBe("Resource release failed: close failed");
+  });
+});
+
+describe("withResource", () => {
+  it("releases multiple resources in reverse order", async () => {
+    const order: string[] = [];
+    const spec = (name: string) => ({
+      acquire: () => {
+        order.push(`acquire ${name}`);
+        return name;
+      },
+      release: (resource: string) => {
+        order.push(`release ${resource}`);
+      },
+    });
+
+    const result = await withResource(
+      [spec("db"), spec("cache")],
+      ([db, cache]) => `${db}+${cache}`
+    );
+
+    expect(result.result).toBe("db+cache");
+    expect(order).toEqual([
+      "acquire db",
+      "acquire cache",
+      "release cache",
+      "release db",
+    ]);
+  });
+
+  it("releases earlier resources when a later acquire fails", async () => {
+    const released: string[] = [];
+
+    const { error } = await withResource(
+      [
+        { acquire: () => "db", release: (r: string) => void released.push(r) },
+        () => Promise.reject(new Error("cache down")),
+      ],
+      () => "unused"
+    );
+
+    expect(error?.phase).toBe("acquire");
+    expect(error?.index).toBe(1);
+    expect(released).toEqual(["db"]);
+  });
+
+  it("disposes values implementing Symbol.dispose / Symbol.asyncDispose", async () => {
+    const disposed: string[] = [];
+    const syncHandle = {
+      [disposeSymbol]: () => void disposed.push("sync"),
+    };
+    const asyncHandle = {
+      [asyncDisposeSymbol]: async () => void disposed.push("async"),
+    };
+
+    await withResource(
+      [() => syncHandle, async () => asyncHandle],
+      () => "used"
+    );
+
+    expect(disposed).toEqual(["async", "sync"]);
+  });
+});
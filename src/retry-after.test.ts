@@ -0,0 +1,211 @@
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  getRetryAfter,
+  RetryDecisions,
+  RetryStrategies,
+  tryAndCatchWithRetry,
+  VirtualClock,
+} from "./index";
+
+const rateLimited = (fields: object) =>
+  Object.assign(new Error("Too Many Requests"), fields);
+
+describe("getRetryAfter", () => {
+  it("reads numeric hints from the error", () => {
+    expect(getRetryAfter(rateLimited({ retryAfterMs: 250 }))).toBe(250);
+    expect(getRetryAfter(rateLimited({ retryAfter: 2 }))).toBe(2000);
+    expect(getRetryAfter(new Error("plain"))).toBeUndefined();
+    expect(getRetryAfter("not an error")).toBeUndefined();
+  });
+
+  it("reads a CircuitOpenError hint as milliseconds", () => {
+    expect(getRetryAfter(new CircuitOpenError(30000))).toBe(30000);
+  });
+
+  it("reads Retry-After headers in seconds or as an HTTP-date", () => {
+    const fetchLike = rateLimited({
+      response: { status: 429, headers: new Map([["retry-after", "3"]]) },
+    });
+    const nodeLike = rateLimited({
+      headers: {
+        "Retry-After": new Date(Date.now() + 10000).toUTCString(),
+      },
+    });
+
+    expect(getRetryAfter(fetchLike)).toBe(3000);
+    expect(getRetryAfter(nodeLike)).toBeGreaterThan(8000);
+    expect(getRetryAfter(nodeLike)).toBeLessThanOrEqual(10000);
+  });
+
+  it("measures HTTP-dates against the injected clock", async () => {
+    const clock = new VirtualClock(Date.parse("2026-10-21T07:28:00Z"));
+    const error = rateLimited({
+      headers: { "retry-after": "Wed, 21 Oct 2026 07:28:10 GMT" },
+    });
+    const onRetry = jest.fn();
+
+    expect(getRetryAfter(error, Infinity, clock)).toBe(10000);
+
+    const pending = tryAndCatchWithRetry(
+      jest.fn().mockRejectedValueOnce(error).mockResolvedValue("ok"),
+      { maxRetries: 1, delay: 0, clock, onRetry }
+    );
+    await clock.runAll();
+    await pending;
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(10000);
+  });
+
+  it("reads gRPC pushback metadata and RetryInfo details", () => {
+    const pushback = rateLimited({
+      metadata: { get: () => ["1500"] },
+    });
+    const retryInfo = rateLimited({
+      details: [{ retryDelay: { seconds: 1, nanos: 500000000 } }],
+    });
+
+    expect(getRetryAfter(pushback)).toBe(1500);
+    expect(getRetryAfter(retryInfo)).toBe(1500);
+  });
+
+  it("follows the cause chain and clamps to the cap", () => {
+    const wrapped = Object.assign(new Error("request failed"), {
+      cause: rateLimited({ retryAfter: "86400" }),
+    });
+
+    expect(getRetryAfter(wrapped, 5000)).toBe(5000);
+    expect(getRetryAfter(rateLimited({ retryAfterMs: -10 }))).toBe(0);
+  });
+});
+
+describe("Error-directed retries", () => {
+  it("waits at least as long as the Retry-After hint", async () => {
+    const onRetry = jest.fn();
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(rateLimited({ retryAfterMs: 40 }))
+      .mockResolvedValue("ok");
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 1,
+      delay: 5,
+      onRetry,
+    });
+
+    expect(result.result).toBe("ok");
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(40);
+  });
+
+  it("waits out an open circuit rethrown inside fn", async () => {
+    const clock = new VirtualClock();
+    const breaker = new CircuitBreaker({
+      failureThreshold: 1,
+      coolDownMs: 30000,
+      clock,
+    });
+    await breaker.execute(() => Promise.reject(new Error("down")));
+    const onRetry = jest.fn();
+
+    const pending = tryAndCatchWithRetry(
+      async () => {
+        const { ok, result, error } = await breaker.execute(async () => "up");
+        if (!ok) throw error;
+        return result;
+      },
+      { maxRetries: 1, delay: 0, clock, onRetry }
+    );
+    await clock.runAll();
+
+    expect((await pending).result).toBe("up");
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(30000);
+  });
+
+  it("caps hostile hints with maxRetryAfterMs", async () => {
+    const onRetry = jest.fn();
+
+    await tryAndCatchWithRetry(
+      () => Promise.reject(rateLimited({ retryAfter: 3600 })),
+      { maxRetries: 1, delay: 0, maxRetryAfterMs: 10, onRetry }
+    );
+
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(10);
+  });
+
+  it("ignores hints when respectRetryAfter is false", async () => {
+    const onRetry = jest.fn();
+
+    await tryAndCatchWithRetry(
+      () => Promise.reject(rateLimited({ retryAfter: 3600 })),
+      { maxRetries: 1, delay: 0, respectRetryAfter: false, onRetry }
+    );
+
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(0);
+  });
+
+  it("passes the error and context to shouldRetry and delay", async () => {
+    const shouldRetry = jest.fn(() => true);
+    const delay = jest.fn(() => 0);
+    const error = rateLimited({ retryAfterMs: 0 });
+
+    await tryAndCatchWithRetry(() => Promise.reject(error), {
+      maxRetries: 1,
+      shouldRetry,
+      delay,
+    });
+
+    const context = {
+      attempt: 1,
+      elapsed: expect.any(Number),
+      errors: expect.any(Array),
+      retryAfterMs: 0,
+    };
+    expect(shouldRetry).toHaveBeenCalledWith(error, context);
+    expect(delay).toHaveBeenCalledWith(0, error, context);
+  });
+
+  it("lets shouldRetry decide when to come back or stop", async () => {
+    const onRetry = jest.fn();
+    const fn = jest.fn((): Promise<string> => {
+      throw rateLimited({ status: fn.mock.calls.length === 1 ? 503 : 400 });
+    });
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 5,
+      delay: 1000,
+      shouldRetry: (error) =>
+        (error as Error & { status: number }).status === 503
+          ? RetryDecisions.after(15)
+          : RetryDecisions.stop(),
+      onRetry,
+    });
+
+    expect(result.attempts).toBe(2);
+    expect(onRetry.mock.calls[0][1].nextDelayMs).toBe(15);
+  });
+
+  it("lets delay return a decision", async () => {
+    const fn = jest.fn(() => Promise.reject(new Error("flaky")));
+
+    const result = await tryAndCatchWithRetry(fn, {
+      maxRetries: 5,
+      delay: (attempt) =>
+        attempt < 1 ? RetryDecisions.now() : RetryDecisions.stop(),
+    });
+
+    expect(result.attempts).toBe(2);
+  });
+
+  it("keeps attempt-only delay functions working", async () => {
+    const onRetry = jest.fn();
+
+    await tryAndCatchWithRetry(() => Promise.reject(new Error("down")), {
+      maxRetries: 2,
+      delay: RetryStrategies.linearBackoff(1),
+      onRetry,
+    });
+
+    expect(onRetry.mock.calls.map(([, info]) => info.nextDelayMs)).toEqual([
+      1, 2,
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import {
+  serializeError,
+  serializeResult,
+  deserializeError,
+  deserializeResult,
+  registerErrorClass,
+  tryAndCatch,
+  tryAndCatchWithRetry,
+  TimeoutError,
+  SerializedError,
+  SerializedResult,
+  RetryResult,
+} from "./index";
+
+const roundTrip = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+class PaymentError extends Error {
+  constructor(message: string, public readonly code: string) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+registerErrorClass(PaymentError);
+
+describe("serializeError", () => {
+  it("captures name, message, stack and custom properties", () => {
+    const error = new PaymentError("card declined", "E_DECLINED");
+
+    const serialized = serializeError(error);
+
+    expect(serialized).toEqual({
+      name: "PaymentError",
+      message: "card declined",
+      stack: error.stack,
+      code: "E_DECLINED",
+    });
+  });
+
+  it("follows cause chains and AggregateError errors", () => {
+    const root = new Error("socket hang up");
+    const wrapped = Object.assign(new Error("fetch failed"), { cause: root });
+    const aggregate = new AggregateError([wrapped, "plain"], "all failed");
+
+    const serialized = serializeError(aggregate);
+
+    expect(serialized.errors).toHaveLength(2);
+    const first = serialized.errors![0] as SerializedError;
+    expect(first.message).toBe("fetch failed");
+    expect((first.cause as SerializedError).message).toBe("socket hang up");
+    expect(serialized.errors![1]).toBe("plain");
+  });
+
+  it("handles cycles and non-JSON values", () => {
+    const error = new Error("weird") as Error & Record<string, unknown>;
+    error.self = error;
+    error.meta = { big: BigInt(10), fn: () => 1, when: new Date(0) };
+
+    const serialized = roundTrip(serializeError(error));
+
+    expect(serialized.self).toBe("[Circular]");
+    expect(serialized.meta).toEqual({
+      big: "10",
+      when: "1970-01-01T00:00:00.000Z",
+    });
+  });
+
+  it("wraps non-Error throws", () => {
+    expect(serializeError("nope")).toEqual({ name: "Error", message: "nope" });
+  });
+});
+
+describe("serializeResult", () => {
+  it("makes failed Results JSON-safe", () => {
+    const result = tryAndCatch(() => {
+      throw new Error("boom");
+    });
+
+    const json = JSON.parse(JSON.stringify(serializeResult(result)));
+
+    expect(json.ok).toBe(false);
+    expect(json.error.message).toBe("boom");
+    expect(json.error.stack).toContain("boom");
+  });
+
+  it("keeps successful values and retry metadata", async () => {
+    const retried = await tryAndCatchWithRetry(
+      jest
+        .fn()
+        .mockRejectedValueOnce(new TimeoutError(50))
+        .mockResolvedValue({ id: 1 }),
+      { maxRetries: 1, delay: 0 }
+    );
+
+    const revived = deserializeResult(roundTrip(serializeResult(retried)));
+
+    expect(revived).toMatchObject({ ok: true, result: { id: 1 }, attempts: 2 });
+    const [attemptError] = (revived as unknown as { errors: Error[] }).errors;
+    expect(attemptError).toBeInstanceOf(TimeoutError);
+    expect((attemptError as TimeoutError).timeout).toBe(50);
+    const { history } = revived as unknown as RetryResult<{ id: number }>;
+    expect(history[0].error).toBeInstanceOf(TimeoutError);
+    expect(history[1]).toMatchObject({ attempt: 2, error: null });
+  });
+});
+
+describe("deserializeError", () => {
+  it("round-trips registered classes losslessly", () => {
+    const cause = new TypeError("bad amount");
+    const error = Object.assign(new PaymentError("charge failed", "E_CHARGE"), {
+      cause,
+    });
+
+    const revived = deserializeError(roundTrip(serializeError(error)));
+
+    expect(revived).toBeInstanceOf(PaymentError);
+    expect(revived.name).toBe("PaymentError");
+    expect(revived.message).toBe("charge failed");
+    expect(revived.stack).toBe(error.stack);
+    expect((revived as PaymentError).code).toBe("E_CHARGE");
+    expect((revived as typeof error).cause).toBeInstanceOf(TypeError);
+    expect(Object.keys(revived)).not.toContain("message");
+  });
+
+  it("revives AggregateError members", () => {
+    const aggregate = new AggregateError([new RangeError("r")], "agg");
+
+    const revived = deserializeError(roundTrip(serializeError(aggregate)));
+
+    expect(revived).toBeInstanceOf(AggregateError);
+    expect((revived as AggregateError).errors[0]).toBeInstanceOf(RangeError);
+  });
+
+  it("falls back to Error and accepts a per-call registry", () => {
+    const data = { name: "QuotaError", message: "too many" };
+    class QuotaError extends Error {}
+
+    expect(deserializeError(data)).toBeInstanceOf(Error);
+    expect(deserializeError(data).name).toBe("QuotaError");
+    expect(deserializeError(data, { QuotaError })).toBeInstanceOf(QuotaError);
+  });
+
+  it("ignores names inherited from Object.prototype", () => {
+    for (const name of [
+      "toString",
+      "hasOwnProperty",
+      "__proto__",
+      "constructor",
+    ]) {
+      const revived = deserializeError({ name, message: "" }, {});
+
+      expect(revived).toBeInstanceOf(Error);
+      expect(revived.name).toBe(name);
+    }
+  });
+
+  it("does not let payload keys replace the prototype", () => {
+    const data = JSON.parse(
+      '{"name":"Error","message":"x","__proto__":{"polluted":true},' +
+        '"constructor":"evil","code":"E_X"}'
+    );
+
+    const revived = deserializeError(data);
+
+    expect(revived).toBeInstanceOf(Error);
+    expect(Object.getPrototypeOf(revived)).toBe(Error.prototype);
+    expect((revived as unknown as { polluted?: boolean }).polluted).toBe(
+      undefined
+    );
+    expect(revived.constructor).toBe(Error);
+    expect((revived as unknown as { code: string }).code).toBe("E_X");
+  });
+
+  it("revives failed Results", () => {
+    const data: SerializedResult = {
+      ok: false,
+      result: null,
+      error: { name: "TimeoutError", message: "slow", timeout: 10 },
+    };
+
+    const { error } = deserializeResult(data);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+  });
+});
@@ -0,0 +1,205 @@
+import { dedupe, SingleFlight, TryAndCatch, VirtualClock } from "./index";
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: Error) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe("SingleFlight", () => {
+  it("shares one in-flight call between concurrent callers", async () => {
+    const flight = new SingleFlight();
+    const backend = deferred<string>();
+    const fn = jest.fn(() => backend.promise);
+
+    const calls = [1, 2, 3].map(() => flight.run("user:1", fn));
+    expect(flight.stats("user:1").inFlight).toBe(true);
+    backend.resolve("Ada");
+    const results = await Promise.all(calls);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results.every((r) => r === results[0])).toBe(true);
+    expect(results[0].result).toBe("Ada");
+    expect(flight.stats("user:1")).toEqual({
+      executions: 1,
+      shared: 2,
+      cacheHits: 0,
+      failures: 0,
+      inFlight: false,
+    });
+  });
+
+  it("keeps different keys independent", async () => {
+    const flight = new SingleFlight();
+    const fn = jest.fn(async () => "value");
+
+    await Promise.all([flight.run("a", fn), flight.run("b", fn)]);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("runs again once the previous call has settled", async () => {
+    const flight = new SingleFlight();
+    const fn = jest.fn(async () => "value");
+
+    await flight.run("key", fn);
+    await flight.run("key", fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares failures by default", async () => {
+    const flight = new SingleFlight();
+    const fn = jest.fn(() => Promise.reject(new Error("down")));
+
+    const results = await Promise.all([
+      flight.run("key", fn),
+      flight.run("key", fn),
+    ]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r.error?.message)).toEqual(["down", "down"]);
+    expect(flight.stats("key").failures).toBe(1);
+  });
+
+  it("gives waiting callers one fresh shared call when failures aren't shared", async () => {
+    const flight = new SingleFlight({ shareFailures: false });
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("blip"))
+      .mockResolvedValue("recovered");
+
+    const [leader, ...waiters] = await Promise.all([
+      flight.run("key", fn),
+      flight.run("key", fn),
+      flight.run("key", fn),
+    ]);
+
+    expect(leader.error?.message).toBe("blip");
+    expect(waiters.map((r) => r.result)).toEqual(["recovered", "recovered"]);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves the last success until the TTL expires", async () => {
+    const clock = new VirtualClock();
+    const flight = new SingleFlight({ ttlMs: 1000, clock });
+    const fn = jest.fn(async () => "value");
+
+    await flight.run("key", fn);
+    await clock.advance(999);
+    await flight.run("key", fn);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(flight.stats("key").cacheHits).toBe(1);
+
+    await clock.advance(1);
+    await flight.run("key", fn);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not cache failures", async () => {
+    const flight = new SingleFlight({ ttlMs: 1000 });
+    const fn = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("down"))
+      .mockResolvedValue("up");
+
+    await flight.run("key", fn);
+    const result = await flight.run("key", fn);
+
+    expect(result.result).toBe("up");
+  });
+
+  it("forgets cached results and stats", async () => {
+    const flight = new SingleFlight({ ttlMs: 1000 });
+    const fn = jest.fn(async () => "value");
+
+    await flight.run("key", fn);
+    flight.forget("key");
+    await flight.run("key", fn);
+
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(flight.stats("key").executions).toBe(1);
+  });
+
+  it("does not cache a call forgotten while in flight", async () => {
+    const flight = new SingleFlight({ ttlMs: 1000 });
+    const first = deferred<string>();
+    const fn = jest
+      .fn()
+      .mockReturnValueOnce(first.promise)
+      .mockResolvedValue("fresh");
+
+    const pending = flight.run("key", fn);
+    flight.forget("key");
+    first.resolve("stale");
+
+    expect((await pending).result).toBe("stale");
+    expect((await flight.run("key", fn)).result).toBe("fresh");
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(flight.stats("key").cacheHits).toBe(0);
+  });
+
+  it("bounds cached results and stats by maxKeys", async () => {
+    const flight = new SingleFlight({ ttlMs: 1000, maxKeys: 2 });
+    const fn = jest.fn(async () => "value");
+
+    await flight.run("a", fn);
+    await flight.run("b", fn);
+    await flight.run("a", fn);
+    await flight.run("c", fn);
+
+    expect(flight.stats("a")).toMatchObject({ executions: 1, cacheHits: 1 });
+    expect(flight.stats("b").executions).toBe(0);
+    await flight.run("a", fn);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it("evicts expired results of keys that are never asked for again", async () => {
+    const clock = new VirtualClock();
+    const flight = new SingleFlight({ ttlMs: 1, clock });
+    const internals = flight as unknown as { cache: Map<string, unknown> };
+
+    for (let i = 0; i < 100; i++) await flight.run(`key:${i}`, async () => i);
+    expect(internals.cache.size).toBe(100);
+    await clock.advance(1);
+    await flight.run("other", async () => "x");
+
+    expect([...internals.cache.keys()]).toEqual(["other"]);
+  });
+});
+
+describe("dedupe", () => {
+  it("keys calls by their arguments", async () => {
+    const fetchUser = jest.fn(async (id: number) => ({ id }));
+    const getUser = dedupe(fetchUser);
+
+    const [a, b, c] = await Promise.all([getUser(1), getUser(1), getUser(2)]);
+
+    expect(fetchUser).toHaveBeenCalledTimes(2);
+    expect(a).toBe(b);
+    expect(c.result).toEqual({ id: 2 });
+    expect(getUser.flight.stats("[1]").shared).toBe(1);
+  });
+
+  it("accepts a custom key function", async () => {
+    const fn = jest.fn(
+      async (query: { id: number; trace: string }) => query.id
+    );
+    const lookup = dedupe(fn, { key: (query) => String(query.id) });
+
+    await Promise.all([
+      lookup({ id: 1, trace: "a" }),
+      lookup({ id: 1, trace: "b" }),
+    ]);
+
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.dedupe).toBe(dedupe);
+  });
+});
@@ -0,0 +1,200 @@
+import {
+  configure,
+  InMemoryTracer,
+  otelTracer,
+  OtelSpanLike,
+  tryAndCatch,
+  tryAndCatchAsync,
+  tryAndCatchWithRetry,
+  VirtualClock,
+} from "./index";
+
+const silent = () => undefined;
+
+describe("tracing", () => {
+  it("traces a retried operation with a span per attempt", async () => {
+    const tracer = new InMemoryTracer();
+    const clock = new VirtualClock();
+    const flaky = new Error("flaky");
+    const fn = jest.fn().mockRejectedValueOnce(flaky).mockResolvedValue("ok");
+
+    const pending = tryAndCatchWithRetry(fn, {
+      maxRetries: 2,
+      delay: 250,
+      operation: "fetchUser",
+      tracer,
+      clock,
+    });
+    await clock.runAll();
+    await pending;
+
+    const [parent, first, second] = tracer.spans;
+    expect(tracer.spans).toHaveLength(3);
+    expect(parent).toMatchObject({
+      name: "fetchUser",
+      status: "ok",
+      attributes: { "retry.max_retries": 2, "retry.attempts": 2 },
+      events: [
+        {
+          name: "retry",
+          attributes: { "retry.attempt": 1, "retry.delay_ms": 250 },
+        },
+      ],
+    });
+    expect(tracer.children(parent)).toEqual([first, second]);
+    expect(first).toMatchObject({
+      name: "fetchUser attempt",
+      status: "error",
+      statusMessage: "flaky",
+      exceptions: [flaky],
+      attributes: { "retry.attempt": 1 },
+    });
+    expect(second).toMatchObject({ status: "ok", exceptions: [] });
+    expect(tracer.spans.every((span) => span.ended)).toBe(true);
+  });
+
+  it("marks the parent span failed when retries give up", async () => {
+    const tracer = new InMemoryTracer();
+
+    await tryAndCatchWithRetry(() => Promise.reject(new Error("down")), {
+      maxRetries: 0,
+      operation: "fetchUser",
+      tracer,
+      logger: silent,
+    });
+
+    expect(tracer.spans[0]).toMatchObject({
+      status: "error",
+      statusMessage: "down",
+      attributes: { "retry.attempts": 1 },
+      ended: true,
+    });
+  });
+
+  it("records cleanup events on tryAndCatch spans", () => {
+    const tracer = new InMemoryTracer();
+
+    const { error } = tryAndCatch(
+      () => {
+        throw new Error("boom");
+      },
+      {
+        operation: "parse",
+        tracer,
+        logger: silent,
+        onFinally: [
+          () => undefined,
+          () => {
+            throw new Error("close failed");
+          },
+        ],
+      }
+    );
+
+    expect(error?.message).toBe("boom");
+    expect(tracer.spans).toHaveLength(1);
+    expect(tracer.spans[0]).toMatchObject({
+      name: "parse",
+      status: "error",
+      ended: true,
+      events: [
+        { name: "cleanup", attributes: { "cleanup.count": 2 } },
+        {
+          name: "cleanup.failed",
+          attributes: { "exception.message": "close failed" },
+        },
+      ],
+    });
+  });
+
+  it("ends async spans once the promise settles", async () => {
+    const tracer = new InMemoryTracer();
+
+    const pending = tryAndCatch(async () => "ok", {
+      operation: "load",
+      tracer,
+    });
+    expect(tracer.spans[0].ended).toBe(false);
+    await pending;
+    await tryAndCatchAsync(() => Promise.reject(new Error("nope")), {
+      operation: "save",
+      tracer,
+    });
+
+    expect(
+      tracer.spans.map(({ name, status, ended }) => [name, status, ended])
+    ).toEqual([
+      ["load", "ok", true],
+      ["save", "error", true],
+    ]);
+  });
+
+  it("uses the configured tracer for named operations only", async () => {
+    const tracer = new InMemoryTracer();
+    configure({ tracer });
+    try {
+      tryAndCatch(() => 1);
+      await tryAndCatchWithRetry(async () => 1, { maxRetries: 0 });
+      tryAndCatch(() => 1, { operation: "named" });
+    } finally {
+      configure({ tracer: undefined });
+    }
+
+    expect(tracer.spans.map((span) => span.name)).toEqual(["named"]);
+  });
+});
+
+describe("otelTracer", () => {
+  const fakeSpan = (name: string, context: unknown) => {
+    const calls: unknown[][] = [];
+    const span: OtelSpanLike & {
+      name: string;
+      context: unknown;
+      calls: unknown[][];
+    } = {
+      name,
+      context,
+      calls,
+      setAttribute: (...args) => calls.push(["setAttribute", ...args]),
+      addEvent: (...args) => calls.push(["addEvent", ...args]),
+      recordException: (...args) => calls.push(["recordException", ...args]),
+      setStatus: (...args) => calls.push(["setStatus", ...args]),
+      end: () => void calls.push(["end"]),
+    };
+    return span;
+  };
+
+  it("maps spans, statuses and parents onto the OpenTelemetry API", async () => {
+    const started: ReturnType<typeof fakeSpan>[] = [];
+    const tracer = otelTracer(
+      {
+        startSpan: (name, _options, context) => {
+          const span = fakeSpan(name, context);
+          started.push(span);
+          return span;
+        },
+      },
+      {
+        context: { active: () => "root" },
+        trace: { setSpan: (context, span) => ({ context, span }) },
+      }
+    );
+
+    await tryAndCatchWithRetry(() => Promise.reject("nope"), {
+      maxRetries: 0,
+      operation: "sync",
+      tracer,
+      logger: silent,
+    });
+
+    const [parent, attempt] = started;
+    expect(parent.context).toBeUndefined();
+    expect(attempt.context).toEqual({ context: "root", span: parent });
+    expect(attempt.calls).toEqual([
+      ["recordException", expect.any(Error)],
+      ["setStatus", { code: 2, message: "nope" }],
+      ["end"],
+    ]);
+    expect(parent.calls).toContainEqual(["setAttribute", "retry.attempts", 1]);
+  });
+});
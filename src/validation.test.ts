@@ -0,0 +1,165 @@
+import {
+  deserializeError,
+  isSuccess,
+  Result,
+  safeParse,
+  serializeError,
+  tryAndCatch,
+  tryAndCatchAsync,
+  ValidationError,
+} from "./index";
+
+interface User {
+  id: number;
+  name: string;
+}
+
+const isUser = (value: unknown): value is User =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as User).id === "number" &&
+  typeof (value as User).name === "string";
+
+// Shaped like a zod schema: throws an error carrying `issues`
+const UserSchema = {
+  parse(input: unknown): User {
+    if (isUser(input)) return input;
+    throw Object.assign(new Error("Invalid user"), {
+      name: "ZodError",
+      issues: [
+        { path: ["id"], message: "Expected number", code: "invalid_type" },
+        { path: ["tags", 0], message: "Required" },
+      ],
+    });
+  },
+};
+
+describe("safeParse", () => {
+  it("narrows the result with a type guard", () => {
+    const result = safeParse({ id: 1, name: "Ada" }, isUser);
+
+    expect(isSuccess(result)).toBe(true);
+    if (result.ok) {
+      const name: string = result.result.name;
+      expect(name).toBe("Ada");
+    }
+  });
+
+  it("fails a type guard mismatch at the root path", () => {
+    const { error } = safeParse("nope", isUser);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error?.issues).toEqual([
+      { path: [], message: "Value does not match the expected type" },
+    ]);
+  });
+
+  it("keeps issue paths thrown by a parse-style validator", () => {
+    const { error } = safeParse({ id: "1" }, UserSchema);
+
+    expect(error?.issues).toEqual([
+      { path: ["id"], message: "Expected number", code: "invalid_type" },
+      { path: ["tags", 0], message: "Required" },
+    ]);
+    expect(error?.message).toBe(
+      "Validation failed: id: Expected number; tags.0: Required"
+    );
+    expect((error?.cause as Error).name).toBe("ZodError");
+  });
+
+  it("normalises valibot and yup style paths", () => {
+    const valibot = safeParse(null, {
+      parse() {
+        throw Object.assign(new Error("Invalid"), {
+          issues: [
+            { path: [{ key: "items" }, { key: 2 }], message: "Bad item" },
+          ],
+        });
+      },
+    });
+    const yup = safeParse(null, {
+      parse() {
+        throw Object.assign(new Error("2 errors"), {
+          inner: [{ path: "items[2].id", message: "Required" }],
+        });
+      },
+    });
+
+    expect(valibot.error?.issues[0].path).toEqual(["items", 2]);
+    expect(yup.error?.issues[0].path).toEqual(["items", 2, "id"]);
+  });
+
+  it("wraps plain validator errors as a single issue", () => {
+    const { error } = safeParse(1, {
+      parse(): never {
+        throw new TypeError("not a string");
+      },
+    });
+
+    expect(error?.issues).toEqual([{ path: [], message: "not a string" }]);
+  });
+
+  it("round-trips through serialization with its issues", () => {
+    const { error } = safeParse({}, UserSchema);
+    const revived = deserializeError(serializeError(error));
+
+    expect(revived).toBeInstanceOf(ValidationError);
+    expect((revived as ValidationError).issues).toEqual(error?.issues);
+  });
+});
+
+describe("validate option", () => {
+  it("validates JSON.parse output synchronously", () => {
+    const result = tryAndCatch(() => JSON.parse('{"id":1,"name":"Ada"}'), {
+      validate: isUser,
+    });
+    const typed: Result<User, Error | ValidationError> = result;
+
+    expect(typed).toEqual({
+      ok: true,
+      result: { id: 1, name: "Ada" },
+      error: null,
+    });
+  });
+
+  it("leaves thrown errors to mapError and fails mismatches with ValidationError", () => {
+    const mapError = (error: unknown) => String(error);
+    const broken = tryAndCatch(() => JSON.parse("{"), {
+      validate: isUser,
+      mapError,
+    });
+    const invalid = tryAndCatch(() => JSON.parse("{}"), {
+      validate: UserSchema,
+      mapError,
+    });
+
+    expect(typeof broken.error).toBe("string");
+    expect(invalid.error).toBeInstanceOf(ValidationError);
+  });
+
+  it("validates async results and keeps cleanup reporting", async () => {
+    const cleanup = jest.fn();
+    const result = await tryAndCatch(
+      async (): Promise<unknown> => ({ id: 1 }),
+      {
+        validate: UserSchema,
+        onFinally: cleanup,
+      }
+    );
+
+    expect(cleanup).toHaveBeenCalledTimes(1);
+    expect(result.error).toBeInstanceOf(ValidationError);
+  });
+
+  it("narrows tryAndCatchAsync results", async () => {
+    const response = {
+      json: async (): Promise<unknown> => ({ id: 2, name: "Bo" }),
+    };
+
+    const result = await tryAndCatchAsync(() => response.json(), {
+      validate: isUser,
+    });
+
+    expect(result.ok && result.result.id).toBe(2);
+  });
+});
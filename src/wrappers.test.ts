@@ -0,0 +1,143 @@
+import {
+  failure,
+  Result,
+  Retry,
+  retryable,
+  Safe,
+  safeify,
+  safeifyAsync,
+  success,
+  Timeout,
+  TimeoutError,
+  TryAndCatch,
+} from "./index";
+
+describe("safeify", () => {
+  it("keeps parameters and turns throws into Results", () => {
+    const parse = safeify((text: string, radix: number) => {
+      const n = parseInt(text, radix);
+      if (Number.isNaN(n)) throw new Error(`not a number: ${text}`);
+      return n;
+    });
+
+    expect(parse("ff", 16)).toEqual(success(255));
+    expect(parse("zz", 10).error?.message).toBe("not a number: zz");
+  });
+
+  it("returns a Promise<Result> for async functions", async () => {
+    const load = safeify(async (id: number) => ({ id }));
+
+    await expect(load(7)).resolves.toEqual(success({ id: 7 }));
+  });
+
+  it("preserves this", () => {
+    const counter = {
+      count: 1,
+      next: safeify(function (this: { count: number }, step: number) {
+        return (this.count += step);
+      }),
+    };
+
+    expect(counter.next(2).result).toBe(3);
+  });
+});
+
+describe("safeifyAsync", () => {
+  it("always resolves to a Result, even for sync throws", async () => {
+    const fn = safeifyAsync((flag: boolean): Promise<string> => {
+      if (flag) throw new Error("sync throw");
+      return Promise.resolve("ok");
+    });
+
+    expect((await fn(true)).error?.message).toBe("sync throw");
+    expect((await fn(false)).result).toBe("ok");
+  });
+});
+
+describe("retryable", () => {
+  it("creates a reusable retrying function", async () => {
+    const backend = jest
+      .fn()
+      .mockRejectedValueOnce(new Error("flaky"))
+      .mockResolvedValue("data");
+    const fetchData = retryable((id: string) => backend(id), {
+      maxRetries: 2,
+      delay: 0,
+    });
+
+    const result = await fetchData("a");
+
+    expect(result.result).toBe("data");
+    expect(result.attempts).toBe(2);
+    expect(backend).toHaveBeenCalledWith("a");
+  });
+
+  it("is exposed on the unified API", () => {
+    expect(TryAndCatch.safeify).toBe(safeify);
+    expect(TryAndCatch.retryable).toBe(retryable);
+  });
+});
+
+describe("Method decorators", () => {
+  class Service {
+    calls = 0;
+
+    constructor(private readonly failures: number) {}
+
+    @Safe
+    parse(text: string): Result<unknown> {
+      return success(JSON.parse(text));
+    }
+
+    @Safe
+    async load(id: number): Promise<Result<number>> {
+      if (id < 0) throw new Error("negative id");
+      return success(id * this.failures);
+    }
+
+    @Retry({ maxRetries: 3, delay: 0 })
+    async fetch(): Promise<string> {
+      this.calls++;
+      if (this.calls <= this.failures) throw new Error(`fail ${this.calls}`);
+      return `ok after ${this.calls}`;
+    }
+
+    @Timeout(10)
+    async slow(ms: number): Promise<string> {
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      return "done";
+    }
+  }
+
+  it("@Safe converts throws into failures", async () => {
+    const service = new Service(2);
+
+    expect(service.parse('{"a":1}')).toEqual(success({ a: 1 }));
+    expect(service.parse("{").ok).toBe(false);
+    expect(await service.load(3)).toEqual(success(6));
+    expect((await service.load(-1)).error?.message).toBe("negative id");
+  });
+
+  it("@Safe passes returned failures through", () => {
+    class Validator {
+      @Safe
+      check(n: number): Result<number, string> {
+        return n > 0 ? success(n) : failure("must be positive");
+      }
+    }
+
+    expect(new Validator().check(-1)).toEqual(failure("must be positive"));
+  });
+
+  it("@Retry retries with this preserved and rethrows the last error", async () => {
+    await expect(new Service(2).fetch()).resolves.toBe("ok after 3");
+    await expect(new Service(9).fetch()).rejects.toThrow("fail 4");
+  });
+
+  it("@Timeout rejects slow calls with a TimeoutError", async () => {
+    const service = new Service(0);
+
+    await expect(service.slow(1)).resolves.toBe("done");
+    await expect(service.slow(50)).rejects.toBeInstanceOf(TimeoutError);
+  });
+});